@@ -0,0 +1,77 @@
+// Stand-in for Home Assistant's REST API, for trying the home card without a
+// real instance. Serves GET /api/states/<entity_id> for a few sample entities
+// whose states drift over time.
+//
+//   npm run mock:home-assistant
+//   HOME_ASSISTANT_URL=http://localhost:8123 HOME_ASSISTANT_TOKEN=mock-token npm run dev
+//
+// PORT and MOCK_HOME_ASSISTANT_TOKEN change the port (8123) and expected token (mock-token).
+
+import http from 'http';
+
+const port = Number(process.env.PORT || 8123);
+const token = process.env.MOCK_HOME_ASSISTANT_TOKEN || 'mock-token';
+
+const startedAt = Date.now();
+
+function state(entityId, value, attributes) {
+  return { entity_id: entityId, state: String(value), attributes, last_changed: new Date(startedAt).toISOString() };
+}
+
+// Sample entities; the front door unlocks for one minute in every three
+function getStates() {
+  const minutes = (Date.now() - startedAt) / 60000;
+  const indoor = 21 + Math.sin(minutes / 5);
+
+  return [
+    state('lock.front_door', Math.floor(minutes) % 3 === 2 ? 'unlocked' : 'locked', { friendly_name: 'Front Door' }),
+    state('lock.back_door', 'locked', { friendly_name: 'Back Door' }),
+    state('climate.thermostat', 'heat', {
+      friendly_name: 'Thermostat',
+      current_temperature: Math.round(indoor * 10) / 10,
+      temperature: 21.5,
+      hvac_action: indoor < 21.5 ? 'heating' : 'idle',
+    }),
+    state('sensor.living_room_temperature', indoor.toFixed(2), {
+      friendly_name: 'Living Room',
+      unit_of_measurement: '°C',
+      device_class: 'temperature',
+    }),
+    state('binary_sensor.garage_door', 'off', { friendly_name: 'Garage Door', device_class: 'garage_door' }),
+    state('sensor.basement_humidity', 'unavailable', { friendly_name: 'Basement Humidity' }),
+  ];
+}
+
+function send(response, status, body) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+const server = http.createServer((request, response) => {
+  console.log(`${request.method} ${request.url}`);
+
+  if (request.headers.authorization !== `Bearer ${token}`) {
+    return send(response, 401, { message: 'Invalid authentication' });
+  }
+
+  const url = new URL(request.url, `http://localhost:${port}`);
+  if (url.pathname === '/api/') {
+    return send(response, 200, { message: 'API running.' });
+  }
+
+  if (url.pathname === '/api/states') {
+    return send(response, 200, getStates());
+  }
+
+  const match = url.pathname.match(/^\/api\/states\/(.+)$/);
+  if (match) {
+    const entity = getStates().find((candidate) => candidate.entity_id === match[1]);
+    return entity ? send(response, 200, entity) : send(response, 404, { message: 'Entity not found.' });
+  }
+
+  send(response, 404, { message: 'Not found' });
+});
+
+server.listen(port, () => {
+  console.log(`Mock Home Assistant on http://localhost:${port} (token "${token}")`);
+});
@@ -1,25 +1,42 @@
 import { NextResponse } from 'next/server';
-import { google } from 'googleapis';
-import { toZonedTime, fromZonedTime } from 'date-fns-tz';
-import { startOfWeek, endOfWeek } from 'date-fns';
-
-const TIMEZONE = 'America/Toronto';
+import { toZonedTime } from 'date-fns-tz';
+import { getEnabledCalendarSources } from '@/lib/calendar/sources';
+import { createGoogleCalendarClient } from '@/lib/calendar/sources/google';
+import { getDisplaySettings } from '@/lib/settings';
+import { getDashboardConfig, getVisibleCalendars } from '@/lib/config';
+import { getWeatherProvider } from '@/lib/weather/providers';
+import { getWeekRange } from '@/utils/dateTime';
 
 export async function GET() {
   // Return the environment variables (masked for security)
-  const lat = process.env.OPENWEATHERMAP_LAT;
-  const lon = process.env.OPENWEATHERMAP_LON;
-  const city = process.env.OPENWEATHERMAP_CITY;
+  const config = getDashboardConfig();
+  const location = config.weather.location;
   const apiKey = process.env.OPENWEATHERMAP_API_KEY;
   const clientEmail = process.env.GOOGLE_CLIENT_EMAIL;
   const privateKey = process.env.GOOGLE_PRIVATE_KEY;
-  const calendarIds = process.env.GOOGLE_CALENDAR_IDS;
+  const calendarIds = config.calendars.flatMap(calendar => calendar.type === 'google' ? [calendar.calendarId] : []);
+  const settings = getDisplaySettings();
+
+  let enabledSources: string[];
+  try {
+    enabledSources = getEnabledCalendarSources(getVisibleCalendars(config)).map(source => source.id);
+  } catch (error) {
+    enabledSources = [`ERROR: ${error instanceof Error ? error.message : error}`];
+  }
+
+  let weatherProvider: string;
+  try {
+    weatherProvider = getWeatherProvider(config.weather.provider).id;
+  } catch (error) {
+    weatherProvider = `ERROR: ${error instanceof Error ? error.message : error}`;
+  }
 
   const debugInfo: any = {
     weather: {
-      lat: lat || 'NOT SET',
-      lon: lon || 'NOT SET',
-      city: city || 'NOT SET',
+      provider: weatherProvider,
+      lat: location?.lat || 'NOT SET',
+      lon: location?.lon || 'NOT SET',
+      city: location?.name || 'NOT SET',
       apiKeyExists: !!apiKey,
       apiKeyLength: apiKey?.length || 0,
       apiKeyPrefix: apiKey ? apiKey.substring(0, 4) + '...' : 'NOT SET',
@@ -27,42 +44,56 @@ export async function GET() {
     calendar: {
       clientEmailExists: !!clientEmail,
       privateKeyExists: !!privateKey,
-      calendarIds: calendarIds || 'NOT SET',
-      calendarCount: calendarIds ? calendarIds.split(',').length : 0,
+      configFile: config.file || 'NOT SET (using environment variables)',
+      calendars: config.calendars.map(({ id, type, label, visible, priority }) => ({ id, type, label, visible, priority })),
+      calendarIds: calendarIds.length > 0 ? calendarIds.join(',') : 'NOT SET',
+      calendarCount: calendarIds.length,
+      icalUrlCount: config.calendars.filter(calendar => calendar.type === 'ical').length,
+      enabledSources,
+    },
+    layout: config.layout,
+    profiles: Object.entries(config.profiles).map(([id, profile]) => ({
+      id,
+      label: profile.label,
+      calendars: profile.calendarIds || 'ALL VISIBLE',
+      location: profile.location?.name || (profile.location ? `${profile.location.lat},${profile.location.lon}` : 'DEFAULT'),
+      cards: profile.cards || 'ALL',
+      layout: profile.layout ? 'CUSTOM' : 'DEFAULT',
+      theme: profile.theme || 'DEFAULT',
+      nightMode: profile.nightMode === false ? 'OFF' : profile.nightMode || 'DEFAULT',
+      entities: profile.entityIds || 'ALL',
+    })),
+    nightMode: config.nightMode || 'OFF',
+    homeAssistant: {
+      url: config.homeAssistant.url || 'NOT SET',
+      tokenExists: !!process.env.HOME_ASSISTANT_TOKEN,
+      webhookEnabled: !!process.env.HOME_ASSISTANT_WEBHOOK_SECRET,
+      entities: config.homeAssistant.entities.map(entity => entity.entityId),
     },
-    timezone: TIMEZONE,
+    timezone: settings.timeZone,
+    display: settings,
     nodeEnv: process.env.NODE_ENV,
   };
 
   // Try to fetch calendar events with detailed logging
-  if (clientEmail && privateKey && calendarIds) {
+  if (clientEmail && privateKey && calendarIds.length > 0) {
     try {
-      const auth = new google.auth.JWT({
-        email: clientEmail,
-        key: privateKey.replace(/\\n/g, '\n'),
-        scopes: ['https://www.googleapis.com/auth/calendar.readonly'],
-      });
-
-      const calendar = google.calendar({ version: 'v3', auth });
+      const calendar = createGoogleCalendarClient(clientEmail, privateKey);
 
       const nowUTC = new Date();
-      const nowEST = toZonedTime(nowUTC, TIMEZONE);
-      const weekStartEST = startOfWeek(nowEST, { weekStartsOn: 0 });
-      const weekEndEST = endOfWeek(nowEST, { weekStartsOn: 0 });
-      const weekStart = fromZonedTime(weekStartEST, TIMEZONE);
-      const weekEnd = fromZonedTime(weekEndEST, TIMEZONE);
+      const nowLocal = toZonedTime(nowUTC, settings.timeZone);
+      const { start: weekStart, end: weekEnd } = getWeekRange(settings, nowUTC);
 
       debugInfo.timeInfo = {
         nowUTC: nowUTC.toISOString(),
-        nowEST: nowEST.toISOString(),
+        nowLocal: nowLocal.toISOString(),
         weekStart: weekStart.toISOString(),
         weekEnd: weekEnd.toISOString(),
       };
 
-      const calendarIdArray = calendarIds.split(',').map(id => id.trim());
       const allEvents: any[] = [];
 
-      for (const calendarId of calendarIdArray) {
+      for (const calendarId of calendarIds) {
         try {
           const response = await calendar.events.list({
             calendarId: calendarId,
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getHomeAssistant } from '@/lib/homeAssistant';
+import { ConfigurationError, PayloadValidationError, UnknownProfileError } from '@/lib/errors';
+
+// Messages are held in memory; never prerender
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  // Optional ?profile= selects a dashboard profile's entities and messages
+  const profileId = new URL(request.url).searchParams.get('profile');
+
+  try {
+    return NextResponse.json(await getHomeAssistant(profileId));
+  } catch (error) {
+    if (error instanceof UnknownProfileError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof ConfigurationError) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (error instanceof PayloadValidationError) {
+      console.error('Home Assistant API error:', error);
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+
+    console.error('Home Assistant API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch Home Assistant states' }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { addMessage, clearMessages } from '@/lib/homeAssistant/messages';
+import { invalidateHomeAssistantStates } from '@/lib/homeAssistant';
+import { setNightMode } from '@/lib/nightMode';
+import { refreshChannel, refreshChannelEverywhere } from '@/lib/liveUpdates';
+import { getProfile } from '@/lib/config/profiles';
+import { getWebhookSecret, isAuthorized } from '@/lib/auth';
+import { ConfigurationError, UnknownProfileError } from '@/lib/errors';
+import { NightModeSchema, formatValidationIssues } from '@/types/schema';
+
+// Inbound calls from Home Assistant (a rest_command or automation), authenticated
+// with "Authorization: Bearer <HOME_ASSISTANT_WEBHOOK_SECRET>". ?profile= targets
+// one profile's dashboard; without it messages go to every dashboard and night
+// mode applies to the default one.
+
+export const dynamic = 'force-dynamic';
+
+const WebhookRequestSchema = z.discriminatedUnion('action', [
+  // Show a message over the dashboard, e.g. "Someone is at the front door"
+  z.object({
+    action: z.literal('message'),
+    text: z.string().min(1),
+    title: z.string().optional(),
+    level: z.enum(['info', 'warning', 'alert']).default('info'),
+    minutes: z.number().positive().optional(), // Until cleared when omitted
+  }),
+  z.object({
+    action: z.literal('clear-messages'),
+  }),
+  // Same as POST /api/night-mode
+  z.object({
+    action: z.literal('night-mode'),
+    mode: z.union([NightModeSchema, z.literal('auto')]),
+    minutes: z.number().int().positive().optional(),
+  }),
+  // An entity changed; reload states now instead of on the next interval
+  z.object({
+    action: z.literal('refresh'),
+  }),
+]);
+
+// Reload the homeAssistant channel where the change is visible
+function refreshHomeAssistant(profileId: string | null) {
+  if (profileId) {
+    refreshChannel('homeAssistant', profileId);
+  } else {
+    refreshChannelEverywhere('homeAssistant');
+  }
+}
+
+export async function POST(request: Request) {
+  const secret = getWebhookSecret();
+  if (!secret) {
+    return NextResponse.json({ error: 'Webhook disabled. Set HOME_ASSISTANT_WEBHOOK_SECRET to enable it.' }, { status: 503 });
+  }
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const profileId = new URL(request.url).searchParams.get('profile');
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const parsed = WebhookRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: `Invalid request: ${formatValidationIssues(parsed.error)}` }, { status: 400 });
+  }
+
+  try {
+    if (profileId) {
+      getProfile(profileId);
+    }
+
+    const command = parsed.data;
+    switch (command.action) {
+      case 'message': {
+        const message = addMessage(command, profileId);
+        refreshHomeAssistant(profileId);
+        return NextResponse.json({ message });
+      }
+      case 'clear-messages':
+        clearMessages(profileId);
+        refreshHomeAssistant(profileId);
+        return NextResponse.json({ cleared: true });
+      case 'night-mode': {
+        const nightMode = await setNightMode(profileId, command.mode, command.minutes);
+        refreshChannel('nightMode', profileId);
+        return NextResponse.json({ nightMode });
+      }
+      case 'refresh':
+        invalidateHomeAssistantStates();
+        refreshHomeAssistant(profileId);
+        return NextResponse.json({ refreshed: true });
+    }
+  } catch (error) {
+    if (error instanceof UnknownProfileError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof ConfigurationError) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    console.error('Home Assistant webhook error:', error);
+    return NextResponse.json({ error: 'Failed to handle webhook' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getNightMode, setNightMode } from '@/lib/nightMode';
+import { refreshChannel } from '@/lib/liveUpdates';
+import { getWebhookSecret, isAuthorized } from '@/lib/auth';
+import { ConfigurationError, UnknownProfileError } from '@/lib/errors';
+import { NightModeSchema, formatValidationIssues } from '@/types/schema';
+
+// Overrides are held in memory; never prerender
+export const dynamic = 'force-dynamic';
+
+// Body of POST /api/night-mode, e.g. { "mode": "dark", "minutes": 60 }
+const NightModeRequestSchema = z.object({
+  // "auto" clears the override and follows the schedule again
+  mode: z.union([NightModeSchema, z.literal('auto')]),
+  // Defaults to the schedule's next change
+  minutes: z.number().int().positive().optional(),
+});
+
+function errorResponse(error: unknown) {
+  if (error instanceof UnknownProfileError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+
+  if (error instanceof ConfigurationError) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  console.error('Night mode API error:', error);
+  return NextResponse.json({ error: 'Failed to determine night mode' }, { status: 500 });
+}
+
+export async function GET(request: Request) {
+  // Optional ?profile= selects a dashboard profile's schedule
+  const profileId = new URL(request.url).searchParams.get('profile');
+
+  try {
+    return NextResponse.json(await getNightMode(profileId));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Overrides need the webhook secret, like the night-mode action of /api/home-assistant/webhook
+export async function POST(request: Request) {
+  const secret = getWebhookSecret();
+  if (!secret) {
+    return NextResponse.json({ error: 'Night mode overrides disabled. Set HOME_ASSISTANT_WEBHOOK_SECRET to enable them.' }, { status: 503 });
+  }
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const profileId = new URL(request.url).searchParams.get('profile');
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const parsed = NightModeRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: `Invalid request: ${formatValidationIssues(parsed.error)}` }, { status: 400 });
+  }
+
+  try {
+    const state = await setNightMode(profileId, parsed.data.mode, parsed.data.minutes);
+    // Connected tablets switch now rather than on their next poll
+    refreshChannel('nightMode', profileId);
+    return NextResponse.json(state);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
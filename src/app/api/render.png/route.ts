@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { renderSnapshot, type SnapshotLevels } from '@/lib/render';
+import type { Rotation } from '@/lib/render/raster';
+import { ConfigurationError, UnknownProfileError } from '@/lib/errors';
+import { formatValidationIssues } from '@/types/schema';
+
+// Query string of /api/render.png, e.g. ?profile=hallway&width=758&height=1024&levels=16
+const SnapshotQuerySchema = z.object({
+  profile: z.string().optional(),
+  width: z.coerce.number().int().min(100).max(4000).default(800),
+  height: z.coerce.number().int().min(100).max(4000).default(600),
+  // Clockwise, for panels mounted sideways or upside down
+  rotate: z.enum(['0', '90', '180', '270']).default('0').transform((value) => Number(value) as Rotation),
+  // Gray levels of the panel: 2 (black and white), 4, 16 or 256
+  levels: z.enum(['2', '4', '16', '256']).default('256').transform((value) => Number(value) as SnapshotLevels),
+  dither: z.enum(['true', 'false', '1', '0']).default('false').transform((value) => value === 'true' || value === '1'),
+});
+
+export async function GET(request: Request) {
+  const query = SnapshotQuerySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams));
+  if (!query.success) {
+    return NextResponse.json({ error: `Invalid query: ${formatValidationIssues(query.error)}` }, { status: 400 });
+  }
+
+  const { profile, width, height, rotate, levels, dither } = query.data;
+
+  try {
+    const png = await renderSnapshot({
+      profileId: profile || null,
+      width,
+      height,
+      rotation: rotate,
+      levels,
+      dither,
+    });
+
+    return new NextResponse(new Uint8Array(png), {
+      headers: {
+        'Content-Type': 'image/png',
+        // Frames fetch on their own schedule; always render fresh
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof UnknownProfileError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof ConfigurationError) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    console.error('Render API error:', error);
+    return NextResponse.json({ error: 'Failed to render dashboard image' }, { status: 500 });
+  }
+}
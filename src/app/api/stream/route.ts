@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { subscribe, type LiveChannel } from '@/lib/liveUpdates';
+import { getProfile } from '@/lib/config/profiles';
+import { UnknownProfileError } from '@/lib/errors';
+
+// Long-lived response; never prerender or cache
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 25000;
+
+export async function GET(request: Request) {
+  // Optional ?profile= streams a dashboard profile's weather and calendars
+  const profileId = new URL(request.url).searchParams.get('profile');
+  try {
+    getProfile(profileId);
+  } catch (error) {
+    if (error instanceof UnknownProfileError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    // Other configuration errors are reported on each channel
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const send = (channel: LiveChannel, payload: unknown) => {
+        write(`event: ${channel}\ndata: ${JSON.stringify(payload)}\n\n`);
+      };
+
+      // Ask EventSource to wait 5s before its own automatic reconnect
+      write('retry: 5000\n\n');
+
+      const unsubscribe = subscribe(send, profileId);
+
+      // Comment lines keep proxies from closing an idle connection
+      const heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      request.signal.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,9 @@
+import DashboardPage from '@/components/DashboardPage';
+
+// Profiles are resolved from the config file at request time
+export const dynamic = 'force-dynamic';
+
+export default async function ProfileDashboard({ params }: { params: Promise<{ profile: string }> }) {
+  const { profile } = await params;
+  return <DashboardPage profileId={profile} />;
+}
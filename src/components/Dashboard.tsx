@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import WidgetGrid from '@/components/WidgetGrid';
+import MessageBanner from '@/components/MessageBanner';
+import { WIDGETS } from '@/components/widgets';
+import type {
+  CalendarData,
+  DashboardLayout,
+  DisplaySettings,
+  DisplayTheme,
+  HomeAssistantData,
+  NightMode,
+  NightModeState,
+  RefreshSettings,
+  WeatherData,
+} from '@/types';
+import {
+  CalendarDataSchema,
+  HomeAssistantDataSchema,
+  NightModeStateSchema,
+  WeatherDataSchema,
+  parseRoutePayload,
+} from '@/types/schema';
+import { useLiveUpdates } from '@/hooks/useLiveUpdates';
+
+// Classes on the display container switching globals.css to a theme
+const THEME_CLASSES: Record<DisplayTheme, string> = {
+  color: '',
+  eink: 'eink',
+  'eink-grayscale': 'eink eink-grayscale',
+};
+
+// Classes on the display container for each night mode (styles in globals.css)
+const NIGHT_CLASSES: Record<NightMode, string> = {
+  off: '',
+  dim: 'night-mode',
+  dark: 'night-mode-dark',
+};
+
+const NIGHT_TOGGLE: Record<Exclude<NightMode, 'off'>, NightMode> = { dim: 'dark', dark: 'dim' };
+
+// Fallback polling of /api/night-mode while the stream is down
+const NIGHT_MODE_POLL_MS = 60 * 1000;
+
+interface DashboardProps {
+  settings: DisplaySettings;
+  refresh: RefreshSettings;
+  // Profile from /d/<profile>, passed to the API routes; null on the default dashboard
+  profile: string | null;
+  layout: DashboardLayout;
+}
+
+export default function Dashboard({ settings, refresh, profile, layout }: DashboardProps) {
+  const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
+  const [calendarData, setCalendarData] = useState<CalendarData | null>(null);
+  const [weatherLoading, setWeatherLoading] = useState(true);
+  const [calendarLoading, setCalendarLoading] = useState(true);
+  const [weatherError, setWeatherError] = useState<string | null>(null);
+  const [calendarError, setCalendarError] = useState<string | null>(null);
+  const [homeAssistantData, setHomeAssistantData] = useState<HomeAssistantData | null>(null);
+  const [homeAssistantLoading, setHomeAssistantLoading] = useState(true);
+  const [homeAssistantError, setHomeAssistantError] = useState<string | null>(null);
+  const [nightMode, setNightMode] = useState<NightModeState | null>(null);
+  // Scheduled state the screen was tapped in, switching it to the other variant until that state changes
+  const [tappedState, setTappedState] = useState<string | null>(null);
+
+  // Payloads from HTTP and the stream are validated the same way; a route error or
+  // an unexpected shape is shown in the card instead of rendering partial data
+  const applyWeather = (payload: unknown) => {
+    const result = parseRoutePayload(WeatherDataSchema, payload, '/api/weather');
+    if (result.error !== null) {
+      console.error('Error loading weather:', result.error);
+      setWeatherError(result.error);
+    } else {
+      setWeatherError(null);
+      setWeatherData(result.data);
+    }
+    setWeatherLoading(false);
+  };
+
+  const applyCalendar = (payload: unknown) => {
+    const result = parseRoutePayload(CalendarDataSchema, payload, '/api/calendar');
+    if (result.error !== null) {
+      console.error('Error loading calendar:', result.error);
+      setCalendarError(result.error);
+    } else {
+      setCalendarError(null);
+      setCalendarData(result.data);
+    }
+    setCalendarLoading(false);
+  };
+
+  const applyHomeAssistant = (payload: unknown) => {
+    const result = parseRoutePayload(HomeAssistantDataSchema, payload, '/api/home-assistant');
+    if (result.error !== null) {
+      console.error('Error loading Home Assistant:', result.error);
+      setHomeAssistantError(result.error);
+    } else {
+      setHomeAssistantError(null);
+      setHomeAssistantData(result.data);
+    }
+    setHomeAssistantLoading(false);
+  };
+
+  // A route error leaves the screen as it is; the schedule is retried on the next update
+  const applyNightMode = (payload: unknown) => {
+    const result = parseRoutePayload(NightModeStateSchema, payload, '/api/night-mode');
+    if (result.error !== null) {
+      console.error('Error loading night mode:', result.error);
+    } else {
+      setNightMode(result.data);
+    }
+  };
+
+  // API URL carrying the dashboard's profile, if any
+  const apiUrl = (path: string, params: Record<string, string> = {}) => {
+    const query = new URLSearchParams(profile ? { profile, ...params } : params).toString();
+    return query ? `${path}?${query}` : path;
+  };
+  // Live channels the layout's widgets read from
+  const usesChannel = (channel: 'weather' | 'calendar') =>
+    layout.widgets.some(placement => WIDGETS[placement.widget].channel === channel);
+
+  const fetchWeather = async () => {
+    try {
+      const response = await fetch(apiUrl('/api/weather'));
+      applyWeather(await response.json());
+    } catch (error) {
+      console.error('Error fetching weather:', error);
+      setWeatherError('Failed to load weather data');
+      setWeatherLoading(false);
+    }
+  };
+
+  const fetchCalendar = async () => {
+    try {
+      const response = await fetch(apiUrl('/api/calendar', { t: String(Date.now()) }), {
+        cache: 'no-store'
+      });
+      applyCalendar(await response.json());
+    } catch (error) {
+      console.error('Error fetching calendar:', error);
+      setCalendarError('Failed to load calendar data');
+      setCalendarLoading(false);
+    }
+  };
+
+  const fetchHomeAssistant = async () => {
+    try {
+      const response = await fetch(apiUrl('/api/home-assistant'), { cache: 'no-store' });
+      applyHomeAssistant(await response.json());
+    } catch (error) {
+      console.error('Error fetching Home Assistant:', error);
+      setHomeAssistantError('Failed to load Home Assistant states');
+      setHomeAssistantLoading(false);
+    }
+  };
+
+  const fetchNightMode = async () => {
+    try {
+      const response = await fetch(apiUrl('/api/night-mode'), { cache: 'no-store' });
+      applyNightMode(await response.json());
+    } catch (error) {
+      console.error('Error fetching night mode:', error);
+    }
+  };
+
+  // Live updates over SSE, falling back to polling at the configured
+  // intervals (5 minutes for weather and 1 for the calendar by default; 1 for night mode).
+  // Channels without a visible card are not polled.
+  useLiveUpdates({
+    weather: {
+      onMessage: applyWeather,
+      poll: usesChannel('weather') ? fetchWeather : () => {},
+      pollIntervalMs: refresh.weatherPollMs,
+    },
+    calendar: {
+      onMessage: applyCalendar,
+      poll: usesChannel('calendar') ? fetchCalendar : () => {},
+      pollIntervalMs: refresh.calendarPollMs,
+    },
+    // Always polled: messages pushed by Home Assistant show whichever cards are placed
+    homeAssistant: {
+      onMessage: applyHomeAssistant,
+      poll: fetchHomeAssistant,
+      pollIntervalMs: refresh.homeAssistantPollMs,
+    },
+    nightMode: {
+      onMessage: applyNightMode,
+      poll: fetchNightMode,
+      pollIntervalMs: NIGHT_MODE_POLL_MS,
+    },
+  }, apiUrl('/api/stream'));
+
+  const nightModeKey = nightMode && nightMode.mode !== 'off' ? `${nightMode.mode}:${nightMode.until}` : null;
+  const tapped = nightModeKey !== null && tappedState === nightModeKey;
+  const nightClass = nightMode && nightMode.mode !== 'off'
+    ? NIGHT_CLASSES[tapped ? NIGHT_TOGGLE[nightMode.mode] : nightMode.mode]
+    : '';
+
+  // At night, a tap switches between dim and dark; a tap on the other variant switches back
+  useEffect(() => {
+    if (!nightModeKey) return;
+
+    const handleTap = () => setTappedState(previous => (previous === nightModeKey ? null : nightModeKey));
+    document.addEventListener('click', handleTap);
+    return () => document.removeEventListener('click', handleTap);
+  }, [nightModeKey]);
+
+  return (
+    <div id="display-container" className={`p-5 ${THEME_CLASSES[settings.theme]} ${nightClass}`}>
+      <WidgetGrid
+        layout={layout}
+        weather={{ data: weatherData, loading: weatherLoading, error: weatherError }}
+        calendar={{ data: calendarData, loading: calendarLoading, error: calendarError }}
+        homeAssistant={{ data: homeAssistantData, loading: homeAssistantLoading, error: homeAssistantError }}
+        settings={settings}
+      />
+      <MessageBanner messages={homeAssistantData?.messages ?? []} settings={settings} />
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { notFound } from 'next/navigation';
+import Dashboard from '@/components/Dashboard';
+import { getDisplaySettings } from '@/lib/settings';
+import { getDashboardConfig } from '@/lib/config';
+import { getProfile } from '@/lib/config/profiles';
+import { UnknownProfileError } from '@/lib/errors';
+import { DEFAULT_LAYOUT } from '@/lib/config/layout';
+import type { DashboardLayout, DisplayTheme, RefreshSettings } from '@/types';
+
+interface DashboardPageProps {
+  // Profile id from /d/<profile>; the default dashboard when omitted
+  profileId?: string;
+}
+
+// An invalid config file is reported by the API routes; the page still renders
+// with the default layout and intervals
+function getRefreshSettings(): RefreshSettings {
+  try {
+    const { refresh } = getDashboardConfig();
+    return {
+      weatherPollMs: refresh.weatherPollMs,
+      calendarPollMs: refresh.calendarPollMs,
+      homeAssistantPollMs: refresh.homeAssistantPollMs,
+    };
+  } catch {
+    return { weatherPollMs: 300000, calendarPollMs: 60000, homeAssistantPollMs: 60000 };
+  }
+}
+
+// The profile's layout and theme; the theme is null when it uses the dashboard's
+function getProfileView(profileId?: string): { layout: DashboardLayout; theme: DisplayTheme | null } {
+  try {
+    const { layout, theme } = getProfile(profileId);
+    return { layout, theme };
+  } catch (error) {
+    if (error instanceof UnknownProfileError) {
+      notFound();
+    }
+    return { layout: DEFAULT_LAYOUT, theme: null };
+  }
+}
+
+/**
+ * Server-rendered dashboard for a profile, with its settings resolved from
+ * the config file and environment at request time
+ */
+export default function DashboardPage({ profileId }: DashboardPageProps) {
+  const settings = getDisplaySettings();
+  const { layout, theme } = getProfileView(profileId);
+
+  return (
+    <Dashboard
+      settings={{ ...settings, theme: theme || settings.theme }}
+      refresh={getRefreshSettings()}
+      profile={profileId || null}
+      layout={layout}
+    />
+  );
+}
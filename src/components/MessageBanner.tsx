@@ -0,0 +1,52 @@
+'use client';
+
+import { useState } from 'react';
+import type { DashboardMessage, DisplaySettings } from '@/types';
+import { formatTime } from '@/utils/dateTime';
+
+// Border colours by message level
+const LEVEL_COLORS: Record<DashboardMessage['level'], string> = {
+  info: 'var(--accent-blue)',
+  warning: 'var(--accent-orange)',
+  alert: 'var(--accent-red)',
+};
+
+interface MessageBannerProps {
+  messages: DashboardMessage[];
+  settings: DisplaySettings;
+}
+
+/**
+ * Messages pushed by Home Assistant, over the top of the dashboard; tapping one
+ * hides it on this tablet
+ */
+export default function MessageBanner({ messages, settings }: MessageBannerProps) {
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const visible = messages.filter(message => !dismissed.includes(message.id));
+
+  if (visible.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed top-5 left-1/2 -translate-x-1/2 z-50 flex flex-col gap-3 w-[min(720px,90vw)]">
+      {visible.map(message => (
+        <button
+          key={message.id}
+          type="button"
+          className="card card-elevated px-6 py-4 text-left"
+          style={{ borderLeft: `6px solid ${LEVEL_COLORS[message.level]}` }}
+          // Don't let the tap reach the night mode toggle
+          onClick={(event) => {
+            event.stopPropagation();
+            setDismissed(previous => [...previous, message.id]);
+          }}
+        >
+          {message.title && <div className="text-xl font-semibold text-primary">{message.title}</div>}
+          <div className="text-lg text-secondary">{message.text}</div>
+          <div className="text-xs text-quaternary mt-1">{formatTime(message.created, settings)} · Tap to dismiss</div>
+        </button>
+      ))}
+    </div>
+  );
+}
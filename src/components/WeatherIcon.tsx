@@ -30,8 +30,7 @@ export default function WeatherIcon({
       alt={alt}
       width={size}
       height={size}
-      className={className}
-      style={{ filter: 'invert(1) brightness(1.1)' }}
+      className={`icon ${className}`.trim()}
       priority
     />
   );
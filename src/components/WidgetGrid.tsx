@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { WIDGETS, type ChannelState, type WidgetDefinition } from '@/components/widgets';
+import { CalendarViewProvider } from '@/components/widgets/CalendarViewContext';
+import type { CalendarData, DashboardLayout, DisplaySettings, HomeAssistantData, WeatherData, WidgetPlacement } from '@/types';
+
+interface WidgetGridProps {
+  layout: DashboardLayout;
+  weather: ChannelState<WeatherData>;
+  calendar: ChannelState<CalendarData>;
+  homeAssistant: ChannelState<HomeAssistantData>;
+  settings: DisplaySettings;
+}
+
+type WidgetCellProps = Omit<WidgetGridProps, 'layout'> & {
+  placement: WidgetPlacement;
+  definition: WidgetDefinition;
+};
+
+// "1fr" tracks may shrink below their content, so a long card scrolls instead of stretching the grid
+function toTrack(size: string): string {
+  return size.endsWith('fr') ? `minmax(0, ${size})` : size;
+}
+
+function ChannelMessage({ channel, state }: { channel: string; state: ChannelState<unknown> }) {
+  if (state.loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-xl text-tertiary">Loading {channel}...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center h-full">
+      <div className="text-center px-6">
+        <p className="text-xl text-tertiary">Error loading {channel}</p>
+        {state.error && <p className="text-sm text-quaternary mt-2">{state.error}</p>}
+      </div>
+    </div>
+  );
+}
+
+// Names of the channels in loading and error messages
+const CHANNEL_NAMES: Record<NonNullable<WidgetDefinition['channel']>, string> = {
+  weather: 'weather',
+  calendar: 'calendar',
+  homeAssistant: 'Home Assistant',
+};
+
+function WidgetContent({ definition, weather, calendar, homeAssistant, settings }: Omit<WidgetCellProps, 'placement'>) {
+  const states = { weather, calendar, homeAssistant };
+  const state = definition.channel ? states[definition.channel] : null;
+
+  // Cards sized by their content stay hidden until there is something to show
+  if (state && (state.loading || state.error || !state.data)) {
+    return definition.size.fitContent || !definition.channel
+      ? null
+      : <ChannelMessage channel={CHANNEL_NAMES[definition.channel]} state={state} />;
+  }
+
+  switch (definition.channel) {
+    case 'weather':
+      return weather.data && <definition.component data={weather.data} settings={settings} />;
+    case 'calendar':
+      return calendar.data && <definition.component data={calendar.data} settings={settings} />;
+    case 'homeAssistant':
+      return homeAssistant.data && <definition.component data={homeAssistant.data} settings={settings} />;
+    default:
+      return <definition.component settings={settings} />;
+  }
+}
+
+// One grid cell; checks the widget's size contract against the space it was given
+function WidgetCell({ placement, definition, ...props }: WidgetCellProps) {
+  const cellRef = useRef<HTMLDivElement | null>(null);
+  const [tooSmall, setTooSmall] = useState(false);
+  const { minWidth, minHeight, fitContent } = definition.size;
+
+  useEffect(() => {
+    const cell = cellRef.current;
+    if (!cell || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setTooSmall(width < minWidth || (!fitContent && height < minHeight));
+    });
+    observer.observe(cell);
+    return () => observer.disconnect();
+  }, [minWidth, minHeight, fitContent]);
+
+  return (
+    <div
+      ref={cellRef}
+      data-widget={placement.widget}
+      className="min-w-0 min-h-0"
+      style={{
+        gridColumn: `${placement.column} / span ${placement.columnSpan}`,
+        gridRow: `${placement.row} / span ${placement.rowSpan}`,
+      }}
+    >
+      {tooSmall ? (
+        <div className="card h-full flex items-center justify-center p-4 text-center">
+          <p className="text-sm text-quaternary">
+            {definition.label} needs at least {minWidth}×{minHeight}px
+          </p>
+        </div>
+      ) : (
+        <WidgetContent definition={definition} {...props} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Place the layout's widgets on a CSS grid filling the display
+ */
+export default function WidgetGrid({ layout, ...props }: WidgetGridProps) {
+  return (
+    <CalendarViewProvider>
+      <div
+        className="grid h-full"
+        style={{
+          gridTemplateColumns: layout.columns.map(toTrack).join(' '),
+          gridTemplateRows: layout.rows.map(toTrack).join(' '),
+          gap: `${layout.gap}px`,
+        }}
+      >
+        {layout.widgets.map((placement) => (
+          <WidgetCell key={placement.widget} placement={placement} definition={WIDGETS[placement.widget]} {...props} />
+        ))}
+      </div>
+    </CalendarViewProvider>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import type { DisplaySettings, WeatherData } from '@/types';
+import { formatWeekday } from '@/utils/dateTime';
+
+type AirQuality = NonNullable<WeatherData['airQuality']>;
+type Pollutant = keyof AirQuality['pollutants'];
+
+// Colours by index level, best first: the EPA's for the US AQI, Canada's
+// low / moderate / high / very high for the AQHI
+const LEVEL_COLORS: Record<AirQuality['index']['scale'], string[]> = {
+  us: ['var(--accent-green)', 'var(--accent-yellow)', 'var(--accent-orange)', 'var(--accent-red)', 'var(--accent-purple)', 'var(--accent-purple)'],
+  aqhi: ['var(--accent-teal)', 'var(--accent-yellow)', 'var(--accent-orange)', 'var(--accent-red)'],
+};
+
+const SCALE_NAMES: Record<AirQuality['index']['scale'], string> = {
+  us: 'US AQI',
+  aqhi: 'AQHI',
+};
+
+// WHO guideline levels (24 h, 8 h for ozone), µg/m³; bars reach the middle at the guideline
+const POLLUTANTS: Array<{ id: Pollutant; label: string; guideline: number }> = [
+  { id: 'pm2_5', label: 'PM2.5', guideline: 15 },
+  { id: 'pm10', label: 'PM10', guideline: 45 },
+  { id: 'o3', label: 'O₃', guideline: 100 },
+  { id: 'no2', label: 'NO₂', guideline: 25 },
+];
+
+const POLLEN_LEVEL_COLORS: Record<AirQuality['pollen'][number]['level'], string> = {
+  none: 'var(--text-quaternary)',
+  low: 'var(--accent-green)',
+  moderate: 'var(--accent-orange)',
+  high: 'var(--accent-red)',
+};
+
+function levelColor(scale: AirQuality['index']['scale'], level: number): string {
+  const colors = LEVEL_COLORS[scale];
+  return colors[Math.min(level, colors.length) - 1];
+}
+
+/**
+ * Air quality index with its health guidance, pollutant levels against the
+ * WHO guidelines, the next days' outlook and pollen where the provider has it
+ */
+export default function AirQualityWidget({ data, settings }: { data: WeatherData; settings: DisplaySettings }) {
+  const airQuality = data.airQuality;
+
+  if (!airQuality) {
+    return (
+      <div className="card card-elevated p-6 h-full flex items-center justify-center">
+        <p className="text-sm text-quaternary">Air quality is unavailable for this location</p>
+      </div>
+    );
+  }
+
+  const { index } = airQuality;
+  const color = levelColor(index.scale, index.level);
+  const pollen = airQuality.pollen.filter((entry) => entry.level !== 'none');
+
+  return (
+    <div className="card card-elevated p-6 h-full flex flex-col gap-4">
+      <h3 className="text-xs font-semibold uppercase tracking-wider text-quaternary -mb-1 ml-1">
+        Air Quality
+      </h3>
+      <div className="flex items-start gap-4">
+        <div className="text-center">
+          <div className="text-5xl font-light" style={{ color }}>{index.display}</div>
+          <div className="text-xs font-semibold uppercase tracking-wider text-quaternary mt-1">{SCALE_NAMES[index.scale]}</div>
+        </div>
+        <div className="min-w-0">
+          <div className="text-lg font-medium text-primary">{index.category}</div>
+          <div className="text-sm text-tertiary">{index.guidance}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-5 gap-y-2">
+        {POLLUTANTS.map((pollutant) => {
+          const value = airQuality.pollutants[pollutant.id];
+          const dominant = index.dominant === pollutant.id;
+          return (
+            <div key={pollutant.id}>
+              <div className="flex justify-between text-xs">
+                <span className={dominant ? 'font-semibold text-primary' : 'text-tertiary'}>{pollutant.label}</span>
+                <span className="text-tertiary">{value} µg/m³</span>
+              </div>
+              <div className="h-1.5 rounded-full mt-1" style={{ background: 'var(--bg-tertiary)' }}>
+                <div
+                  className="h-full rounded-full"
+                  style={{
+                    width: `${Math.min(100, (value / (pollutant.guideline * 2)) * 100)}%`,
+                    background: value > pollutant.guideline ? 'var(--accent-orange)' : 'var(--accent-green)',
+                  }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {airQuality.forecast.length > 0 && (
+        <div className="flex gap-4 mt-auto">
+          {airQuality.forecast.map((day) => (
+            <div key={day.date} className="flex items-center gap-1.5 text-sm">
+              <span className="text-tertiary">{formatWeekday(day.date, settings, 'short')}</span>
+              <span className="font-semibold" style={{ color: levelColor(index.scale, day.level) }}>{day.display}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {pollen.length > 0 && (
+        <div className="flex flex-wrap gap-x-3 text-xs text-tertiary">
+          <span className="font-semibold uppercase tracking-wider text-quaternary">Pollen</span>
+          {pollen.map((entry) => (
+            <span key={entry.type} className="capitalize">
+              {entry.type} <span style={{ color: POLLEN_LEVEL_COLORS[entry.level] }}>{entry.level}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { DisplaySettings, WeatherAlert, WeatherData } from '@/types';
+import { formatTime, formatWeekday } from '@/utils/dateTime';
+
+// Banner colours by alert severity
+const ALERT_COLORS: Record<WeatherAlert['severity'], string> = {
+  extreme: 'var(--accent-purple)',
+  severe: 'var(--accent-red)',
+  moderate: 'var(--accent-orange)',
+  minor: 'var(--accent-yellow)',
+  unknown: 'var(--text-tertiary)',
+};
+
+// Official weather alert banner; renders nothing while no alert is active
+export default function AlertsWidget({ data, settings }: { data: WeatherData; settings: DisplaySettings }) {
+  const [currentTime, setCurrentTime] = useState(new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setCurrentTime(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Alerts are sorted most severe first; hide any that expired since the last update
+  const activeAlerts = data.alerts.filter(
+    alert => !alert.expires || new Date(alert.expires).getTime() > currentTime.getTime()
+  );
+  const topAlert = activeAlerts[0];
+
+  if (!topAlert) {
+    return null;
+  }
+
+  return (
+    <div
+      className="card card-elevated px-6 py-4 flex items-center gap-5"
+      style={{ borderLeft: `6px solid ${ALERT_COLORS[topAlert.severity]}` }}
+    >
+      <div
+        className="text-xs font-bold uppercase tracking-wider px-2.5 py-1 rounded-md"
+        style={{ backgroundColor: ALERT_COLORS[topAlert.severity], color: 'var(--bg-primary)' }}
+      >
+        {topAlert.severity === 'unknown' ? 'Alert' : topAlert.severity}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="text-2xl font-semibold text-primary truncate">
+          {topAlert.headline}
+        </div>
+        <div className="text-sm text-tertiary mt-1">
+          {topAlert.source}
+          {topAlert.expires && ` · Until ${formatWeekday(topAlert.expires, settings, 'short')} ${formatTime(topAlert.expires, settings)}`}
+        </div>
+      </div>
+      {activeAlerts.length > 1 && (
+        <div className="text-lg font-medium text-secondary">
+          +{activeAlerts.length - 1} more
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { createContext, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+
+// Whether the schedule shows tomorrow instead of today. Shared so the tomorrow
+// card can switch the schedule wherever the layout places the two.
+
+interface CalendarView {
+  showTomorrow: boolean;
+  toggleTomorrow: () => void;
+}
+
+// Tomorrow's view reverts to today on its own after this long
+const REVERT_AFTER_MS = 30000;
+
+const CalendarViewContext = createContext<CalendarView>({
+  showTomorrow: false,
+  toggleTomorrow: () => {},
+});
+
+export function CalendarViewProvider({ children }: { children: ReactNode }) {
+  const [showTomorrow, setShowTomorrow] = useState(false);
+  const revertTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => () => {
+    if (revertTimeoutRef.current) clearTimeout(revertTimeoutRef.current);
+  }, []);
+
+  const toggleTomorrow = () => {
+    if (revertTimeoutRef.current) {
+      clearTimeout(revertTimeoutRef.current);
+    }
+
+    const newShowTomorrow = !showTomorrow;
+    setShowTomorrow(newShowTomorrow);
+
+    if (newShowTomorrow) {
+      revertTimeoutRef.current = setTimeout(() => setShowTomorrow(false), REVERT_AFTER_MS);
+    }
+  };
+
+  return (
+    <CalendarViewContext.Provider value={{ showTomorrow, toggleTomorrow }}>
+      {children}
+    </CalendarViewContext.Provider>
+  );
+}
+
+export function useCalendarView(): CalendarView {
+  return useContext(CalendarViewContext);
+}
@@ -0,0 +1,18 @@
+'use client';
+
+import type { DisplaySettings } from '@/types';
+import { formatClock } from '@/utils/dateTime';
+import { useNow } from '@/hooks/useNow';
+
+export default function ClockWidget({ settings }: { settings: DisplaySettings }) {
+  // The clock shows minutes, so it only redraws on the minute
+  const currentTime = useNow(60000);
+
+  return (
+    <div className="card card-elevated p-8 h-full flex items-center justify-center">
+      <div className="font-normal tracking-tight text-primary" style={{ fontSize: '11rem', lineHeight: '0.85', letterSpacing: '-0.02em' }}>
+        {formatClock(currentTime, settings)}
+      </div>
+    </div>
+  );
+}
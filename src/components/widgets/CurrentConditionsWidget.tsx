@@ -0,0 +1,63 @@
+'use client';
+
+import Image from 'next/image';
+import WeatherIcon from '@/components/WeatherIcon';
+import { useNow } from '@/hooks/useNow';
+import type { DisplaySettings, WeatherData } from '@/types';
+import { formatTime } from '@/utils/dateTime';
+import { describeNowcast } from '@/utils/nowcast';
+
+export default function CurrentConditionsWidget({ data, settings }: { data: WeatherData; settings: DisplaySettings }) {
+  const now = useNow(60000);
+  const nowcast = data.nowcast ? describeNowcast(data.nowcast, now) : null;
+  // Anything but a dry hour ahead deserves the umbrella
+  const wet = data.nowcast !== null && (data.nowcast.precipitating || data.nowcast.changeAt !== null);
+
+  return (
+    <div className="card card-elevated p-6 h-full">
+      <div className="relative flex items-center justify-center h-full gap-8">
+        {/* Upstream unavailable: showing the last good payload */}
+        {data.stale && (
+          <div className="absolute top-0 left-0 text-xs text-quaternary">
+            Offline · {formatTime(data.fetchedAt, settings)}
+          </div>
+        )}
+
+        {/* H/L in top right corner */}
+        <div className="absolute top-0 right-0">
+          <div className="text-xl text-tertiary">
+            {data.current.high}°/{data.current.low}°
+          </div>
+        </div>
+
+        {/* Left side: Icon and description */}
+        <div className="flex flex-col items-center gap-3">
+          <WeatherIcon iconCode={data.current.icon} weatherId={data.current.weatherId} size={140} />
+          <div className="text-xl text-tertiary capitalize">
+            {data.current.description}
+          </div>
+        </div>
+
+        {/* Right side: Temperature and feels like */}
+        <div>
+          <div className="text-8xl font-extralight text-primary" style={{ lineHeight: '0.9', letterSpacing: '-0.02em' }}>
+            {data.current.temp}°
+          </div>
+          <div className="text-2xl font-medium text-secondary mt-3">
+            Feels Like: {data.current.feelsLike}°
+          </div>
+        </div>
+
+        {/* Next hour's precipitation, when the provider has a nowcast here */}
+        {nowcast && (
+          <div className={`absolute bottom-0 inset-x-0 flex items-center justify-center gap-1.5 text-base ${wet ? 'text-secondary' : 'text-tertiary'}`}>
+            {wet && (
+              <Image src="/weather-icons/wi-umbrella.svg" alt="" width={20} height={20} className="icon" />
+            )}
+            {nowcast}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
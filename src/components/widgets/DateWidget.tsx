@@ -0,0 +1,35 @@
+'use client';
+
+import type { DisplaySettings } from '@/types';
+import { formatDayOfMonth, formatWeekday } from '@/utils/dateTime';
+import { useNow } from '@/hooks/useNow';
+
+// Calendar-style date card
+export default function DateWidget({ settings }: { settings: DisplaySettings }) {
+  const currentTime = useNow(60000);
+
+  return (
+    <div className="card-elevated h-full overflow-hidden flex flex-col" style={{ borderRadius: '20px' }}>
+      {/* Day of week header */}
+      <div id="day-of-week-header" className="text-center py-6" style={{
+        background: 'linear-gradient(135deg, rgba(255, 255, 255, 0.15) 0%, rgba(255, 255, 255, 0.08) 100%)',
+        borderBottom: '1px solid rgba(255, 255, 255, 0.1)'
+      }}>
+        <div className="text-4xl font-semibold text-primary uppercase tracking-wide">
+          {formatWeekday(currentTime, settings)}
+        </div>
+      </div>
+
+      {/* Large day number */}
+      <div className="flex-1 flex items-center justify-center">
+        <div className="font-light text-primary" style={{
+          fontSize: '10rem',
+          lineHeight: '0.85',
+          letterSpacing: '-0.02em'
+        }}>
+          {formatDayOfMonth(currentTime, settings)}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import type { DisplaySettings, WeatherData } from '@/types';
+import { useNow } from '@/hooks/useNow';
+import { formatDayLength, formatTime, toDashboardTime } from '@/utils/dateTime';
+
+const WIDTH = 300;
+const TOP = 8;
+const BOTTOM = 92;
+const SAMPLES = 72;
+
+// Hours since midnight in the dashboard zone
+function hourOfDay(value: string | Date, settings: DisplaySettings): number {
+  const zoned = toDashboardTime(value, settings);
+  return zoned.getHours() + zoned.getMinutes() / 60 + zoned.getSeconds() / 3600;
+}
+
+// "+2m 14s" or "−1m 58s" against the day before
+function formatChange(seconds: number): string {
+  const sign = seconds < 0 ? '−' : '+';
+  const absolute = Math.abs(Math.round(seconds));
+  const minutes = Math.floor(absolute / 60);
+  return `${sign}${minutes > 0 ? `${minutes}m ` : ''}${absolute % 60}s`;
+}
+
+/**
+ * Today's daylight: the sun's path over the day as a curve crossing the horizon
+ * at sunrise and sunset, where the sun is now, how long the day is and how
+ * that compares with yesterday
+ */
+export default function DaylightWidget({ data, settings }: { data: WeatherData; settings: DisplaySettings }) {
+  const now = useNow(60000);
+  const today = data.sun.today;
+
+  // A cosine peaking at solar noon, shifted so it is zero at sunrise and sunset
+  const noon = hourOfDay(today.solarNoon, settings);
+  const offset = Math.cos((Math.PI * today.dayLength) / (24 * 3600));
+  const altitude = (hour: number) => Math.cos((Math.PI * (hour - noon)) / 12) - offset;
+  const maxAltitude = 1 - offset;
+  const minAltitude = -1 - offset;
+  const toX = (hour: number) => (hour / 24) * WIDTH;
+  const toY = (value: number) => TOP + ((maxAltitude - value) / (maxAltitude - minAltitude)) * (BOTTOM - TOP);
+  const horizon = toY(0);
+
+  const curve = Array.from({ length: SAMPLES + 1 }, (_, index) => {
+    const hour = (index / SAMPLES) * 24;
+    return `${index === 0 ? 'M' : 'L'}${toX(hour).toFixed(1)},${toY(altitude(hour)).toFixed(1)}`;
+  }).join(' ');
+
+  const nowHour = hourOfDay(now, settings);
+  const sunX = toX(nowHour);
+  const sunY = toY(altitude(nowHour));
+  const sunUp = now >= new Date(today.sunrise) && now < new Date(today.sunset);
+
+  return (
+    <div className="card card-elevated p-6 h-full flex flex-col">
+      <h3 className="text-xs font-semibold uppercase tracking-wider text-quaternary mb-3 ml-1">
+        Daylight
+      </h3>
+
+      <svg viewBox={`0 0 ${WIDTH} 100`} className="w-full flex-1 min-h-0" aria-hidden="true">
+        <defs>
+          <clipPath id="daylight-above-horizon">
+            <rect x="0" y="0" width={WIDTH} height={horizon} />
+          </clipPath>
+        </defs>
+        <path d={`${curve} L${WIDTH},${horizon} L0,${horizon} Z`} fill="var(--accent-yellow)" opacity="0.15" clipPath="url(#daylight-above-horizon)" />
+        <line x1="0" y1={horizon} x2={WIDTH} y2={horizon} stroke="var(--text-quaternary)" strokeWidth="1" />
+        <path d={curve} fill="none" stroke="var(--accent-yellow)" strokeWidth="2" />
+        <circle
+          cx={sunX}
+          cy={sunY}
+          r="6"
+          fill={sunUp ? 'var(--accent-yellow)' : 'var(--bg-primary)'}
+          stroke="var(--accent-yellow)"
+          strokeWidth="2"
+        />
+      </svg>
+
+      <div className="grid grid-cols-3 mt-3 text-center">
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wider text-quaternary">Sunrise</div>
+          <div className="text-lg font-medium text-primary">{formatTime(today.sunrise, settings)}</div>
+        </div>
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wider text-quaternary">Day length</div>
+          <div className="text-lg font-medium text-primary">{formatDayLength(today.dayLength)}</div>
+          <div className="text-xs text-tertiary">{formatChange(today.dayLengthChange)} vs yesterday</div>
+        </div>
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wider text-quaternary">Sunset</div>
+          <div className="text-lg font-medium text-primary">{formatTime(today.sunset, settings)}</div>
+        </div>
+      </div>
+
+      {today.civilDawn && today.civilDusk && (
+        <div className="text-xs text-tertiary text-center mt-2">
+          First light {formatTime(today.civilDawn, settings)} · Last light {formatTime(today.civilDusk, settings)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import Image from 'next/image';
+import type { WeatherData } from '@/types';
+import { formatMeasurement } from '@/utils/units';
+
+const getWindDirectionRotation = (degrees: number) => {
+  const towardsDegrees = (degrees + 180) % 360;
+  const directions = [0, 23, 45, 68, 90, 113, 135, 158, 180, 203, 225, 248, 270, 293, 315, 338];
+  let closestAngle = 0;
+  let minDiff = 360;
+  for (const angle of directions) {
+    let diff = Math.abs(towardsDegrees - angle);
+    if (diff > 180) diff = 360 - diff;
+    if (diff < minDiff) {
+      minDiff = diff;
+      closestAngle = angle;
+    }
+  }
+  return closestAngle;
+};
+
+const getAQILabel = (aqi: number | null) => {
+  if (aqi === null) return 'N/A';
+  const labels = ['', 'Good', 'Fair', 'Moderate', 'Poor', 'Very Poor'];
+  return labels[aqi] || 'N/A';
+};
+
+export default function DetailsWidget({ data }: { data: WeatherData }) {
+  return (
+    <div className="card card-elevated p-6 h-full">
+      <div className="flex items-center justify-center h-full">
+        <div className="grid grid-cols-3 gap-x-10 gap-y-5">
+          {[
+            { label: 'Precip.', value: formatMeasurement('precipitation', data.current.precipitationToday, data.units) },
+            { label: 'Humidity', value: `${data.current.humidity}%` },
+            {
+              label: 'Wind',
+              value: (
+                <div className="flex items-center gap-1.5">
+                  <span>{formatMeasurement('speed', data.current.windSpeed, data.units)}</span>
+                  <Image
+                    src="/weather-icons/wi-wind-deg.svg"
+                    alt="Wind"
+                    width={14}
+                    height={14}
+                    style={{ transform: `rotate(${getWindDirectionRotation(data.current.windDeg)}deg)`, filter: 'invert(1)', opacity: 0.7 }}
+                  />
+                </div>
+              )
+            },
+            { label: 'UV Index', value: data.current.uvIndex ?? 'N/A' },
+            { label: 'Air Quality', value: getAQILabel(data.current.aqi) },
+            {
+              label: data.current.nextSunEvent.type === 'sunrise' ? 'Sunrise' : 'Sunset',
+              value: data.current.nextSunEvent.time
+            },
+          ].map((item, index) => (
+            <div key={index} className="text-center">
+              <div className="text-xs font-semibold uppercase tracking-wider text-quaternary mb-1.5">
+                {item.label}
+              </div>
+              <div className="text-lg font-medium text-primary">
+                {item.value}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState, type MouseEvent } from 'react';
+import WeatherIcon from '@/components/WeatherIcon';
+import type { DisplaySettings, WeatherData } from '@/types';
+import { formatMonthDay, formatTime, formatWeekday } from '@/utils/dateTime';
+import { formatMeasurement } from '@/utils/units';
+
+type ForecastDay = WeatherData['forecast'][number];
+
+// An open day closes by itself so the card doesn't stay on it all day
+const DETAIL_TIMEOUT_MS = 30 * 1000;
+
+const PRECIPITATION_LABELS: Record<NonNullable<ForecastDay['precipitationType']>, string> = {
+  rain: 'rain',
+  snow: 'snow',
+  mixed: 'rain and snow',
+};
+
+// Taps open and close a day without reaching the night mode toggle
+function handleTap(event: MouseEvent, action: () => void) {
+  event.stopPropagation();
+  action();
+}
+
+function Detail({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-xs font-semibold uppercase tracking-wider text-quaternary">{label}</div>
+      <div className="text-base font-medium text-primary">{value}</div>
+    </div>
+  );
+}
+
+function DayDetail({ day, units, settings }: { day: ForecastDay; units: WeatherData['units']; settings: DisplaySettings }) {
+  const precipitation = day.precipitationType
+    ? `${formatMeasurement('precipitation', day.precipitation, units)} ${PRECIPITATION_LABELS[day.precipitationType]}`
+    : 'None';
+  const wind = formatMeasurement('speed', day.windSpeed, units);
+
+  return (
+    <div className="flex items-center gap-6 h-full">
+      <div className="flex flex-col items-center gap-1.5">
+        <WeatherIcon iconCode={day.icon} weatherId={day.weatherId} size={56} />
+        <div className="text-sm text-tertiary capitalize">{day.description}</div>
+      </div>
+      <div className="flex-1 grid grid-cols-3 gap-x-6 gap-y-3">
+        <Detail label="High / Low" value={`${day.high}° / ${day.low}°`} />
+        <Detail label="Precip." value={`${precipitation} · ${day.pop}%`} />
+        <Detail
+          label="Wind"
+          value={day.windGust !== null ? `${wind}, gusts ${formatMeasurement('speed', day.windGust, units)}` : wind}
+        />
+        <Detail label="UV Index" value={String(day.uvIndex)} />
+        <Detail label="Sunrise" value={formatTime(day.sunrise, settings)} />
+        <Detail label="Sunset" value={formatTime(day.sunset, settings)} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 7-day forecast with each day's high and low and chance of precipitation;
+ * tapping a day shows its precipitation, wind, UV and sun times
+ */
+export default function ForecastWidget({ data, settings }: { data: WeatherData; settings: DisplaySettings }) {
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  // A refresh can move the forecast on a day; a selected day that's gone closes
+  const selected = data.forecast.find((day) => day.date === selectedDate) ?? null;
+
+  useEffect(() => {
+    if (!selectedDate) return;
+    const timer = setTimeout(() => setSelectedDate(null), DETAIL_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [selectedDate]);
+
+  if (selected) {
+    return (
+      <div className="card p-6 h-full flex flex-col cursor-pointer" onClick={(event) => handleTap(event, () => setSelectedDate(null))}>
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-quaternary mb-3 ml-1">
+          {formatWeekday(selected.date, settings)}, {formatMonthDay(selected.date, settings)}
+        </h3>
+        <div className="flex-1 min-h-0">
+          <DayDetail day={selected} units={data.units} settings={settings} />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card p-6 h-full">
+      <h3 className="text-xs font-semibold uppercase tracking-wider text-quaternary mb-5 ml-1">
+        7-Day Forecast
+      </h3>
+      <div className="grid grid-cols-7 gap-2">
+        {data.forecast.map((day) => (
+          <button
+            key={day.date}
+            type="button"
+            className="flex flex-col items-center gap-2 px-1"
+            onClick={(event) => handleTap(event, () => setSelectedDate(day.date))}
+          >
+            <div className="text-sm font-medium text-secondary">
+              {formatWeekday(day.date, settings, 'short')}
+            </div>
+            <WeatherIcon iconCode={day.icon} weatherId={day.weatherId} size={36} />
+            <div className="text-lg font-semibold text-primary">
+              {day.high}°<span className="text-sm font-normal text-tertiary"> {day.low}°</span>
+            </div>
+            <div className="text-xs text-tertiary text-center">
+              {day.pop}%
+              {day.precipitationType && (
+                <div className="whitespace-nowrap">{formatMeasurement('precipitation', day.precipitation, data.units)}</div>
+              )}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
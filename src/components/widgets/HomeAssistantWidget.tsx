@@ -0,0 +1,50 @@
+'use client';
+
+import type { HomeAssistantData, HomeAssistantEntity } from '@/types';
+
+// States worth noticing from across the room: an unlocked door or an open window
+const ATTENTION_STATES: Record<string, string[]> = {
+  lock: ['unlocked', 'open', 'jammed'],
+  binary_sensor: ['on'],
+  cover: ['open', 'opening'],
+};
+
+function getStateColor(entity: HomeAssistantEntity): string {
+  if (!entity.available) return 'var(--text-quaternary)';
+  if (ATTENTION_STATES[entity.domain]?.includes(entity.state)) return 'var(--accent-orange)';
+  if (entity.domain === 'lock' && entity.state === 'locked') return 'var(--accent-green)';
+  return 'var(--text-primary)';
+}
+
+// Selected Home Assistant entities (locks, thermostat, indoor temperature), one per row
+export default function HomeAssistantWidget({ data }: { data: HomeAssistantData }) {
+  if (data.entities.length === 0) {
+    return (
+      <div className="card card-elevated p-6 h-full flex items-center justify-center text-center">
+        <p className="text-lg text-tertiary">No Home Assistant entities configured</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card card-elevated p-6 h-full overflow-y-auto">
+      <div className="text-xs font-semibold uppercase tracking-wider text-quaternary mb-3">
+        Home
+      </div>
+      {data.error && <p className="text-sm text-quaternary mb-3">{data.error}</p>}
+      <div className="flex flex-col gap-3">
+        {data.entities.map(entity => (
+          <div key={entity.entityId} className="flex items-baseline justify-between gap-4">
+            <div className="min-w-0">
+              <div className="text-lg text-secondary truncate">{entity.label}</div>
+              {entity.detail && <div className="text-sm text-tertiary truncate">{entity.detail}</div>}
+            </div>
+            <div className="text-xl font-medium whitespace-nowrap" style={{ color: getStateColor(entity) }}>
+              {entity.display}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
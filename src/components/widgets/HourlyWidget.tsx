@@ -0,0 +1,165 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import WeatherIcon from '@/components/WeatherIcon';
+import { useNow } from '@/hooks/useNow';
+import type { DisplaySettings, WeatherData } from '@/types';
+import { formatHour } from '@/utils/dateTime';
+import { convert } from '@/utils/units';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hours on the chart: a day, or two on cards wide enough to keep them legible
+const NARROW_HOURS = 24;
+const WIDE_HOURS = 48;
+const WIDE_MIN_WIDTH = 720;
+
+// Vertical bands of the chart, px: hour labels on top, icons, the temperature
+// curve, then precipitation bars above the bottom edge
+const LABEL_HEIGHT = 16;
+const ICON_SIZE = 24;
+const TEMP_TOP = LABEL_HEIGHT + ICON_SIZE + 18;
+const PRECIP_HEIGHT = 32;
+
+// Amount filling the precipitation band; heavier hours are scaled to fit
+const MIN_PRECIP_SCALE_MM = 2;
+
+/**
+ * Temperature and feels-like curves with precipitation probability (pale bars)
+ * and amount (solid bars) for the next 24 or 48 hours, with a marker at now
+ */
+export default function HourlyWidget({ data, settings }: { data: WeatherData; settings: DisplaySettings }) {
+  const chartRef = useRef<HTMLDivElement | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const now = useNow(5 * 60 * 1000);
+
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(chart);
+    return () => observer.disconnect();
+  }, []);
+
+  const hourCount = size.width >= WIDE_MIN_WIDTH ? WIDE_HOURS : NARROW_HOURS;
+  // The payload can be a few minutes old; skip hours that have already ended
+  const hours = data.hourly
+    .filter((hour) => new Date(hour.time).getTime() + HOUR_MS > now.getTime())
+    .slice(0, hourCount);
+
+  return (
+    <div className="card p-6 h-full flex flex-col">
+      <h3 className="text-xs font-semibold uppercase tracking-wider text-quaternary mb-3 ml-1">
+        Next {hourCount} Hours
+      </h3>
+      <div ref={chartRef} className="relative flex-1 min-h-0">
+        {size.width > 0 && hours.length > 1 && (
+          <HourlyChart hours={hours} units={data.units} width={size.width} height={size.height} now={now} settings={settings} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface HourlyChartProps {
+  hours: WeatherData['hourly'];
+  units: WeatherData['units'];
+  width: number;
+  height: number;
+  now: Date;
+  settings: DisplaySettings;
+}
+
+function HourlyChart({ hours, units, width, height, now, settings }: HourlyChartProps) {
+  const start = new Date(hours[0].time).getTime();
+  const slot = width / hours.length;
+  // Label every third hour on a day, every sixth on two
+  const labelEvery = hours.length > NARROW_HOURS ? 6 : 3;
+
+  const temps = hours.flatMap((hour) => [hour.temp, hour.feelsLike]);
+  const maxTemp = Math.max(...temps);
+  const minTemp = Math.min(...temps);
+  const tempBottom = height - PRECIP_HEIGHT - 8;
+  const toY = (temp: number) =>
+    maxTemp === minTemp
+      ? (TEMP_TOP + tempBottom) / 2
+      : TEMP_TOP + ((maxTemp - temp) / (maxTemp - minTemp)) * (tempBottom - TEMP_TOP);
+  const toX = (index: number) => (index + 0.5) * slot;
+  const line = (value: (hour: WeatherData['hourly'][number]) => number) =>
+    hours.map((hour, index) => `${index === 0 ? 'M' : 'L'}${toX(index).toFixed(1)},${toY(value(hour)).toFixed(1)}`).join(' ');
+
+  const precipScale = Math.max(convert('precipitation', MIN_PRECIP_SCALE_MM, units), ...hours.map((hour) => hour.precipitation));
+  const nowX = toX((now.getTime() - start) / HOUR_MS);
+
+  return (
+    <>
+      <svg width={width} height={height} className="absolute inset-0" aria-hidden="true">
+        {hours.map((hour, index) => {
+          const x = index * slot + slot * 0.15;
+          const barWidth = slot * 0.7;
+          const popHeight = (hour.pop / 100) * PRECIP_HEIGHT;
+          const amountHeight = Math.min(1, hour.precipitation / precipScale) * PRECIP_HEIGHT;
+          return (
+            <g key={hour.time}>
+              <rect x={x} y={height - popHeight} width={barWidth} height={popHeight} fill="var(--accent-teal)" opacity="0.25" />
+              {amountHeight > 0 && (
+                <rect x={x + barWidth * 0.25} y={height - amountHeight} width={barWidth * 0.5} height={amountHeight} fill="var(--accent-blue)" />
+              )}
+            </g>
+          );
+        })}
+        <line x1="0" y1={height} x2={width} y2={height} stroke="var(--divider)" strokeWidth="1" />
+
+        <path d={line((hour) => hour.feelsLike)} fill="none" stroke="var(--text-tertiary)" strokeWidth="1.5" strokeDasharray="4 3" />
+        <path d={line((hour) => hour.temp)} fill="none" stroke="var(--accent-orange)" strokeWidth="2.5" />
+
+        {hours.map((hour, index) => index % labelEvery === 0 && (
+          <text
+            key={hour.time}
+            x={toX(index)}
+            y={toY(Math.max(hour.temp, hour.feelsLike)) - 6}
+            textAnchor="middle"
+            fontSize="13"
+            fontWeight="600"
+            fill="var(--text-primary)"
+          >
+            {hour.temp}°
+          </text>
+        ))}
+
+        {hours.map((hour, index) => index % labelEvery === 0 && hour.pop > 0 && (
+          <text
+            key={hour.time}
+            x={toX(index)}
+            y={height - PRECIP_HEIGHT - 4}
+            textAnchor="middle"
+            fontSize="11"
+            fill="var(--text-tertiary)"
+          >
+            {hour.pop}%
+          </text>
+        ))}
+
+        {nowX >= 0 && nowX <= width && (
+          <line x1={nowX} y1={LABEL_HEIGHT} x2={nowX} y2={height} stroke="var(--accent-yellow)" strokeWidth="1.5" />
+        )}
+      </svg>
+
+      {hours.map((hour, index) => index % labelEvery === 0 && (
+        <div
+          key={hour.time}
+          className="absolute flex flex-col items-center"
+          style={{ left: toX(index), top: 0, transform: 'translateX(-50%)' }}
+        >
+          <div className="text-xs font-medium text-tertiary whitespace-nowrap" style={{ height: LABEL_HEIGHT }}>
+            {formatHour(hour.time, settings)}
+          </div>
+          <WeatherIcon iconCode={hour.icon} weatherId={hour.weatherId} size={ICON_SIZE} />
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useEffect, useRef, useState, type MouseEvent } from 'react';
+import WeatherIcon from '@/components/WeatherIcon';
+import type { DisplaySettings, WeatherData } from '@/types';
+
+type LocationSummary = WeatherData['locations'][number];
+
+// Narrowest a location is shown at; a card too narrow for all of them rotates through them
+const TILE_MIN_WIDTH = 200;
+
+const ROTATE_MS = 10 * 1000;
+
+function LocationTile({ location }: { location: LocationSummary }) {
+  const { current } = location;
+
+  return (
+    <div className="flex-1 min-w-0 flex flex-col items-center justify-center gap-1 text-center">
+      <div className="text-base font-medium text-secondary truncate max-w-full">{location.name}</div>
+      {current ? (
+        <>
+          <div className="flex items-center gap-2">
+            <WeatherIcon iconCode={current.icon} weatherId={current.weatherId} size={44} />
+            <span className="text-4xl font-light text-primary">{current.temp}°</span>
+          </div>
+          <div className="text-sm text-tertiary capitalize truncate max-w-full">{current.description}</div>
+          <div className="text-sm text-tertiary">
+            H {current.high}° · L {current.low}°{location.stale && ' · not updated'}
+          </div>
+        </>
+      ) : (
+        <div className="text-sm text-quaternary">Unavailable</div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Current conditions at the named locations, side by side when the card is
+ * wide enough and otherwise in turn; tapping shows the next ones
+ */
+export default function LocationsWidget({ data }: { data: WeatherData; settings: DisplaySettings }) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [width, setWidth] = useState(0);
+  const [page, setPage] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const { locations } = data;
+  const perPage = Math.max(1, Math.min(locations.length, Math.floor(width / TILE_MIN_WIDTH)));
+  const pageCount = Math.ceil(locations.length / perPage);
+  const current = page % Math.max(1, pageCount);
+
+  useEffect(() => {
+    if (pageCount <= 1) return;
+    const timer = setInterval(() => setPage((previous) => (previous + 1) % pageCount), ROTATE_MS);
+    return () => clearInterval(timer);
+  }, [pageCount, page]);
+
+  // Taps move on without reaching the night mode toggle
+  const handleTap = (event: MouseEvent) => {
+    if (pageCount <= 1) return;
+    event.stopPropagation();
+    setPage((current + 1) % pageCount);
+  };
+
+  return (
+    <div className="card p-6 h-full flex flex-col" onClick={handleTap}>
+      <h3 className="text-xs font-semibold uppercase tracking-wider text-quaternary mb-3 ml-1">
+        Locations
+      </h3>
+      <div ref={containerRef} className="flex-1 min-h-0 flex gap-4">
+        {locations.length === 0 ? (
+          <p className="m-auto text-sm text-quaternary">Add places to weather.locations in the dashboard config</p>
+        ) : (
+          locations
+            .slice(current * perPage, (current + 1) * perPage)
+            .map((location) => <LocationTile key={location.id} location={location} />)
+        )}
+      </div>
+      {pageCount > 1 && (
+        <div className="flex justify-center gap-1.5 mt-3">
+          {Array.from({ length: pageCount }, (_, index) => (
+            <span
+              key={index}
+              className="w-1.5 h-1.5 rounded-full"
+              style={{ background: index === current ? 'var(--text-secondary)' : 'var(--text-quaternary)' }}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
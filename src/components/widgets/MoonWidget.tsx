@@ -0,0 +1,61 @@
+'use client';
+
+import Image from 'next/image';
+import type { DisplaySettings, WeatherData } from '@/types';
+import { formatMonthDay, formatTime, formatWeekday } from '@/utils/dateTime';
+
+// "Fri, Oct 17"
+function formatPhaseDate(value: string, settings: DisplaySettings): string {
+  return `${formatWeekday(value, settings, 'short')}, ${formatMonthDay(value, settings)}`;
+}
+
+/**
+ * Tonight's moon: phase and how much of it is lit, when it rises and sets
+ * today and the dates of the next full and new moon, soonest first
+ */
+export default function MoonWidget({ data, settings }: { data: WeatherData; settings: DisplaySettings }) {
+  const { moon } = data;
+  const upcoming = [
+    { label: 'Full moon', at: moon.nextFull },
+    { label: 'New moon', at: moon.nextNew },
+  ].sort((a, b) => a.at.localeCompare(b.at));
+
+  return (
+    <div className="card card-elevated p-6 h-full flex flex-col">
+      <h3 className="text-xs font-semibold uppercase tracking-wider text-quaternary mb-3 ml-1">
+        Moon
+      </h3>
+
+      <div className="flex items-center gap-5 flex-1 min-h-0">
+        <Image
+          src={`/weather-icons/wi-${moon.icon}.svg`}
+          alt={moon.name}
+          width={72}
+          height={72}
+          className="icon"
+        />
+        <div>
+          <div className="text-xl font-medium text-primary">{moon.name}</div>
+          <div className="text-sm text-tertiary">{moon.illumination}% illuminated</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-y-2 mt-3 text-center">
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wider text-quaternary">Moonrise</div>
+          <div className="text-lg font-medium text-primary">{moon.rise ? formatTime(moon.rise, settings) : '—'}</div>
+        </div>
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wider text-quaternary">Moonset</div>
+          <div className="text-lg font-medium text-primary">{moon.set ? formatTime(moon.set, settings) : '—'}</div>
+        </div>
+        {upcoming.map((event) => (
+          <div key={event.label}>
+            <div className="text-xs font-semibold uppercase tracking-wider text-quaternary">{event.label}</div>
+            <div className="text-sm text-secondary">{formatPhaseDate(event.at, settings)}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
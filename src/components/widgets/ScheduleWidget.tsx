@@ -0,0 +1,481 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { addDays, differenceInMinutes, isSameDay, startOfDay } from 'date-fns';
+import type { CalendarData, CalendarEvent, DisplaySettings } from '@/types';
+import { formatHourLabel, formatTime, toDashboardTime } from '@/utils/dateTime';
+import { getEventStyle, isEventOnDay, sortByCalendarPriority } from '@/utils/calendarEvents';
+import { useNow } from '@/hooks/useNow';
+import { useCalendarView } from './CalendarViewContext';
+
+interface ScheduleWidgetProps {
+  data: CalendarData;
+  settings: DisplaySettings;
+}
+
+interface PositionedEvent extends CalendarEvent {
+  column: number;
+  totalColumns: number;
+}
+
+// Today's (or, from the tomorrow card, tomorrow's) timed events on an hour grid
+export default function ScheduleWidget({ data, settings }: ScheduleWidgetProps) {
+  // All layout maths uses wall-clock time in the dashboard timezone, for "now" and event times alike
+  const toLocal = (value: Date | string) => toDashboardTime(value, settings);
+  const tick = useNow(60000);
+  const currentTime = useMemo(() => toDashboardTime(tick, settings), [tick, settings]);
+  const [isUserScrolling, setIsUserScrolling] = useState(false);
+  const { showTomorrow } = useCalendarView();
+  const scrollTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const scheduleContainerRef = useRef<HTMLDivElement | null>(null);
+  const savedTodayScrollPosition = useRef<number>(0);
+  const previousShowTomorrow = useRef(showTomorrow);
+
+  // E-ink panels jump straight to the new position instead of redrawing every step
+  const scrollBehavior: ScrollBehavior = settings.theme === 'color' ? 'smooth' : 'auto';
+
+  // What the toggle scroll reads, kept current so it only runs when the view toggles
+  const toggleInputs = useRef({ events: data.events, currentTime, settings, scrollBehavior });
+  useEffect(() => {
+    toggleInputs.current = { events: data.events, currentTime, settings, scrollBehavior };
+  });
+
+  // Follow the tomorrow card's toggle: jump to tomorrow's first event, or back
+  // to where today's schedule was
+  useEffect(() => {
+    if (previousShowTomorrow.current === showTomorrow) return;
+    previousShowTomorrow.current = showTomorrow;
+    const { events, currentTime, settings, scrollBehavior } = toggleInputs.current;
+
+    if (showTomorrow) {
+      // Save current scroll position for today
+      if (scheduleContainerRef.current) {
+        savedTodayScrollPosition.current = scheduleContainerRef.current.scrollTop;
+      }
+
+      // Scroll to first event of tomorrow
+      setTimeout(() => {
+        if (scheduleContainerRef.current) {
+          const tomorrowDay = addDays(startOfDay(currentTime), 1);
+
+          const tomorrowTimedEvts = events.filter(event => {
+            if (event.allDay) return false;
+            const eventStart = toDashboardTime(event.start, settings);
+            return isSameDay(eventStart, tomorrowDay);
+          });
+
+          if (tomorrowTimedEvts.length > 0) {
+            // Find the earliest event
+            const firstEvent = tomorrowTimedEvts.reduce((earliest, event) => {
+              return new Date(event.start).getTime() < new Date(earliest.start).getTime() ? event : earliest;
+            });
+
+            const eventStart = toDashboardTime(firstEvent.start, settings);
+            const eventHour = eventStart.getHours();
+            const eventMinute = eventStart.getMinutes();
+            const minutesSinceMidnight = eventHour * 60 + eventMinute;
+            const position = minutesSinceMidnight * 1.0; // pixelsPerMinute = 1.0
+
+            // Scroll to show first event with some padding above
+            // Account for top padding in the schedule container
+            const scrollPosition = Math.max(0, position - 60);
+
+            scheduleContainerRef.current.scrollTo({
+              top: scrollPosition,
+              behavior: scrollBehavior
+            });
+          } else {
+            // No events tomorrow, scroll to top
+            scheduleContainerRef.current.scrollTo({
+              top: 0,
+              behavior: scrollBehavior
+            });
+          }
+        }
+      }, 100); // Small delay to ensure state has updated
+    } else {
+      // Switching back to today - restore saved scroll position
+      setTimeout(() => {
+        if (scheduleContainerRef.current) {
+          scheduleContainerRef.current.scrollTo({
+            top: savedTodayScrollPosition.current,
+            behavior: scrollBehavior
+          });
+        }
+      }, 100);
+    }
+  }, [showTomorrow]);
+
+  // Auto-scroll to intelligently frame current and upcoming events
+  useEffect(() => {
+    if (!showTomorrow && !isUserScrolling && scheduleContainerRef.current) {
+      const today = startOfDay(currentTime);
+
+      // Get today's timed events
+      const todayEvents = data.events.filter(event => {
+        const eventStart = toDashboardTime(event.start, settings);
+        return isSameDay(eventStart, today) && !event.allDay;
+      });
+
+      if (todayEvents.length === 0) return;
+
+      const now = currentTime;
+      const currentHour = now.getHours();
+      const currentMinute = now.getMinutes();
+
+      // Calculate current time position (pixelsPerMinute = 1.0)
+      const minutesSinceMidnight = currentHour * 60 + currentMinute;
+      const currentTimePosition = minutesSinceMidnight * 1.0;
+
+      const containerHeight = scheduleContainerRef.current.clientHeight;
+      const contentHeight = scheduleContainerRef.current.scrollHeight;
+
+      // Find upcoming events (not yet finished)
+      const currentTimeMs = now.getTime();
+      const upcomingEvents = todayEvents.filter(event => {
+        const eventEnd = toDashboardTime(event.end, settings);
+        return eventEnd.getTime() > currentTimeMs;
+      });
+
+      let scrollPosition: number;
+
+      if (upcomingEvents.length === 0) {
+        // EVENING CASE: No more events today
+        // Keep red line centered and let it scroll through rest of day
+        scrollPosition = Math.max(0, currentTimePosition - containerHeight / 2);
+        scrollPosition = Math.min(scrollPosition, contentHeight - containerHeight);
+      } else {
+        // ACTIVE DAY CASE: Have upcoming events
+        // Goal: Maximize visibility of current time + upcoming events
+
+        const firstUpcomingEvent = upcomingEvents[0];
+        const firstEventStart = toDashboardTime(firstUpcomingEvent.start, settings);
+        const firstEventMinutes = firstEventStart.getHours() * 60 + firstEventStart.getMinutes();
+        const firstEventPosition = firstEventMinutes * 1.0;
+
+        const lastUpcomingEvent = upcomingEvents[upcomingEvents.length - 1];
+        const lastEventEnd = toDashboardTime(lastUpcomingEvent.end, settings);
+        const lastEventMinutes = lastEventEnd.getHours() * 60 + lastEventEnd.getMinutes();
+        const lastEventPosition = lastEventMinutes * 1.0;
+
+        // Strategy: Start from 2 hours before first event (to avoid empty morning hours)
+        const earliestDesiredPosition = Math.max(0, firstEventPosition - 120);
+
+        // Calculate where centering on current time would scroll to
+        const centeredPosition = Math.max(0, currentTimePosition - containerHeight / 2);
+
+        // Use the later of: 2hrs before first event OR centered on current time
+        // This prevents showing empty hours while keeping current time visible
+        scrollPosition = Math.max(earliestDesiredPosition, centeredPosition);
+
+        // Ensure last upcoming event is visible
+        const visibleBottom = scrollPosition + containerHeight;
+        if (lastEventPosition > visibleBottom) {
+          // Adjust to show the last event with padding
+          scrollPosition = Math.max(0, lastEventPosition - containerHeight + 60);
+        }
+
+        // Ensure current time line stays visible (at least 100px from bottom)
+        const maxScrollToKeepRedLineVisible = currentTimePosition - 100;
+        scrollPosition = Math.min(scrollPosition, maxScrollToKeepRedLineVisible);
+      }
+
+      scheduleContainerRef.current.scrollTo({
+        top: scrollPosition,
+        behavior: scrollBehavior
+      });
+    }
+  }, [currentTime, isUserScrolling, data, showTomorrow, settings, scrollBehavior]);
+
+  // Handle user scroll
+  const handleScroll = () => {
+    setIsUserScrolling(true);
+
+    if (scrollTimeoutRef.current) {
+      clearTimeout(scrollTimeoutRef.current);
+    }
+
+    scrollTimeoutRef.current = setTimeout(() => {
+      setIsUserScrolling(false);
+    }, 10000); // Reset after 10 seconds of no scrolling
+  };
+
+  const today = startOfDay(currentTime);
+  const tomorrow = addDays(today, 1);
+
+  // Get today's events
+  const todayTimedEvents = data.events.filter(event => {
+    return isEventOnDay(event, today, settings) && !event.allDay;
+  });
+
+  const todayAllDayEvents = sortByCalendarPriority(
+    data.events.filter(event => isEventOnDay(event, today, settings) && event.allDay),
+    data.calendars
+  );
+
+  // Get tomorrow's events
+  const tomorrowEvents = data.events.filter(event => {
+    return isEventOnDay(event, tomorrow, settings);
+  });
+
+  // Get tomorrow's timed events for schedule view
+  const tomorrowTimedEvents = tomorrowEvents.filter(event => !event.allDay);
+  const tomorrowAllDayEvents = sortByCalendarPriority(
+    tomorrowEvents.filter(event => event.allDay),
+    data.calendars
+  );
+
+  // Determine which events to show in schedule based on toggle
+  const scheduleEvents = showTomorrow ? tomorrowTimedEvents : todayTimedEvents;
+  const allDayEvents = showTomorrow ? tomorrowAllDayEvents : todayAllDayEvents;
+
+  // Always show full 24-hour day (12am to 11:59pm)
+  const earliestHour = 0;
+  const latestHour = 24;
+  const hours = Array.from({ length: latestHour - earliestHour }, (_, i) => i + earliestHour);
+
+  const getEventsForSchedule = (): PositionedEvent[] => {
+    const dayEvents = scheduleEvents;
+    dayEvents.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+    const positionedEvents: PositionedEvent[] = [];
+    const columns: CalendarEvent[][] = [];
+
+    dayEvents.forEach(event => {
+      const eventStart = new Date(event.start).getTime();
+      const eventEnd = new Date(event.end).getTime();
+
+      let placed = false;
+      for (let i = 0; i < columns.length; i++) {
+        const column = columns[i];
+        const hasOverlap = column.some(existingEvent => {
+          const existingStart = new Date(existingEvent.start).getTime();
+          const existingEnd = new Date(existingEvent.end).getTime();
+          if (eventEnd === existingStart || eventStart === existingEnd) return false;
+          return eventStart < existingEnd && eventEnd > existingStart;
+        });
+
+        if (!hasOverlap) {
+          column.push(event);
+          placed = true;
+          break;
+        }
+      }
+
+      if (!placed) {
+        columns.push([event]);
+      }
+    });
+
+    dayEvents.forEach(event => {
+      const columnIndex = columns.findIndex(col => col.includes(event));
+      const eventStart = new Date(event.start).getTime();
+      const eventEnd = new Date(event.end).getTime();
+
+      let overlappingColumns = 0;
+      columns.forEach(column => {
+        const hasOverlappingEvent = column.some(otherEvent => {
+          if (otherEvent.id === event.id) return false;
+          const otherStart = new Date(otherEvent.start).getTime();
+          const otherEnd = new Date(otherEvent.end).getTime();
+          if (eventEnd === otherStart || eventStart === otherEnd) return false;
+          return eventStart < otherEnd && eventEnd > otherStart;
+        });
+        if (hasOverlappingEvent) overlappingColumns++;
+      });
+
+      const totalColumns = overlappingColumns > 0 ? overlappingColumns + 1 : 1;
+
+      positionedEvents.push({
+        ...event,
+        column: overlappingColumns > 0 ? columnIndex : 0,
+        totalColumns: totalColumns,
+      });
+    });
+
+    return positionedEvents;
+  };
+
+  const pixelsPerMinute = 1.0;
+  const hourHeight = 60 * pixelsPerMinute;
+  const SCHEDULE_TOP_PADDING = 8; // pt-2 in pixels
+
+  return (
+    <div className="card card-elevated p-6 h-full flex flex-col">
+      <h3 className="text-xs font-semibold uppercase tracking-wider text-quaternary mb-5 ml-1">
+        {showTomorrow ? "Tomorrow's Schedule" : "Today's Schedule"}
+      </h3>
+
+      {/* All-Day Events - Fixed Header */}
+      {allDayEvents.length > 0 && (
+        <div id="all-day-separator" className="mb-3 pb-3" style={{ borderBottom: '1px solid var(--divider)' }}>
+          <div
+            className="grid gap-1.5"
+            style={{ gridTemplateColumns: `repeat(${Math.min(allDayEvents.length, 3)}, 1fr)` }}
+          >
+            {allDayEvents.slice(0, 3).map((event) => {
+              const eventStyle = getEventStyle(event, data.calendars, settings.theme);
+              return (
+                <div
+                  key={event.id}
+                  className="rounded-md px-2.5 py-1.5 flex items-center gap-2"
+                  style={eventStyle.block}
+                >
+                  <div className="text-xs font-semibold text-primary truncate flex-1">
+                    {event.title}
+                  </div>
+                  <div className="text-xs font-medium whitespace-nowrap" style={{ color: eventStyle.accent }}>
+                    All Day
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div
+        ref={scheduleContainerRef}
+        onScroll={handleScroll}
+        className="relative flex-1 schedule-container"
+        style={{ overflowY: 'auto' }}
+      >
+        <div className="relative pr-2 pt-2">
+          {hours.map((hour) => {
+              return (
+                <div
+                  key={hour}
+                  className="relative flex items-start"
+                  style={{ height: `${hourHeight}px` }}
+                >
+                  <div className="w-16 text-right pr-4 flex-shrink-0 flex items-center" style={{ height: '1px', transform: 'translateY(0)' }}>
+                    <span className="text-xs font-medium text-quaternary">
+                      {formatHourLabel(hour, settings)}
+                    </span>
+                  </div>
+
+                  <div className="flex-1 relative">
+                    <div
+                      className="absolute top-0 w-full"
+                      style={{
+                        height: '1px',
+                        background: 'var(--divider)',
+                        opacity: 0.3
+                      }}
+                    />
+
+                    {getEventsForSchedule().map((event) => {
+                      const eventStart = toLocal(event.start);
+                      const eventEnd = toLocal(event.end);
+                      const eventHour = eventStart.getHours();
+
+                      if (eventHour === hour) {
+                        const startMinute = eventStart.getMinutes();
+                        const duration = differenceInMinutes(eventEnd, eventStart);
+                        const eventStyle = getEventStyle(event, data.calendars, settings.theme);
+
+                        const top = startMinute * pixelsPerMinute;
+                        const height = Math.max(duration * pixelsPerMinute, 32);
+                        const columnWidth = 100 / event.totalColumns;
+                        const isShortEvent = duration <= 30;
+
+                        return (
+                          <div
+                            key={event.id}
+                            className="absolute rounded-lg overflow-hidden transition-smooth"
+                            style={{
+                              top: `${top}px`,
+                              height: `${height}px`,
+                              left: `${event.column * columnWidth}%`,
+                              width: `${columnWidth - 1.5}%`,
+                              padding: '6px 10px',
+                              ...eventStyle.block,
+                            }}
+                          >
+                            {isShortEvent ? (
+                              <div className="flex items-center gap-2">
+                                <div className="text-xs font-semibold text-primary truncate flex-1">
+                                  {event.title}
+                                </div>
+                                <div className="text-xs font-semibold whitespace-nowrap" style={{ color: eventStyle.accent }}>
+                                  {formatTime(event.start, settings)}
+                                </div>
+                              </div>
+                            ) : (
+                              <div className="flex flex-col gap-1">
+                                <div className="text-xs font-semibold text-primary truncate">
+                                  {event.title}
+                                </div>
+                                <div className="text-xs font-semibold" style={{ color: eventStyle.accent }}>
+                                  {formatTime(event.start, settings)}
+                                </div>
+                              </div>
+                            )}
+                          </div>
+                        );
+                      }
+                      return null;
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+
+          {/* Final 12 AM marker at end of day */}
+          <div className="relative flex items-start" style={{ height: '1px' }}>
+            <div className="w-16 text-right pr-4 flex-shrink-0 flex items-center" style={{ height: '1px', transform: 'translateY(0)' }}>
+              <span className="text-xs font-medium text-quaternary">
+                {formatHourLabel(24, settings)}
+              </span>
+            </div>
+            <div className="flex-1 relative">
+              <div
+                className="absolute top-0 w-full"
+                style={{
+                  height: '1px',
+                  background: 'var(--divider)',
+                  opacity: 0.3
+                }}
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Current Time Indicator - only show when viewing today */}
+        {!showTomorrow && (() => {
+          const now = currentTime;
+          const currentHour = now.getHours();
+          const currentMinute = now.getMinutes();
+
+          // Calculate position from midnight (hour 0)
+          const minutesSinceMidnight = currentHour * 60 + currentMinute;
+          const position = minutesSinceMidnight * pixelsPerMinute + SCHEDULE_TOP_PADDING;
+
+          return (
+            <div
+              className="absolute z-50 pointer-events-none flex items-center"
+              style={{
+                top: `${position}px`,
+                left: '4rem',
+                right: 0,
+              }}
+            >
+              <div
+                className="w-2 h-2 rounded-full"
+                style={{ backgroundColor: 'var(--accent-red)' }}
+              />
+              <div
+                className="flex-1"
+                style={{
+                  height: '2px',
+                  backgroundColor: 'var(--accent-red)',
+                  opacity: 0.7
+                }}
+              />
+            </div>
+          );
+        })()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { addDays, startOfDay } from 'date-fns';
+import type { CalendarData, DisplaySettings } from '@/types';
+import { formatTime, toDashboardTime } from '@/utils/dateTime';
+import { getDayHighlights, getEventStyle } from '@/utils/calendarEvents';
+import { useNow } from '@/hooks/useNow';
+import { useCalendarView } from './CalendarViewContext';
+
+// Tomorrow at a glance; tapping it shows tomorrow on the schedule for a while
+export default function TomorrowWidget({ data, settings }: { data: CalendarData; settings: DisplaySettings }) {
+  const currentTime = toDashboardTime(useNow(60000), settings);
+  const { showTomorrow, toggleTomorrow } = useCalendarView();
+
+  // All-day events plus the longest event of each calendar
+  const tomorrowEventsToShow = getDayHighlights(data.events, addDays(startOfDay(currentTime), 1), settings);
+
+  return (
+    <div
+      className="card p-6 h-full cursor-pointer transition-smooth hover:bg-opacity-80"
+      onClick={toggleTomorrow}
+    >
+      <h3 className="text-xs font-semibold uppercase tracking-wider text-quaternary mb-5 ml-1">
+        Tomorrow At A Glance {showTomorrow && '(Viewing Above)'}
+      </h3>
+      <div className="grid grid-cols-2 gap-2.5 content-start" style={{ height: 'calc(100% - 32px)', overflowY: 'auto' }}>
+        {tomorrowEventsToShow.length === 0 ? (
+          <p className="text-sm text-tertiary col-span-2">No events scheduled for tomorrow</p>
+        ) : (
+          tomorrowEventsToShow.map((event) => {
+            const eventStyle = getEventStyle(event, data.calendars, settings.theme);
+
+            return (
+              <div
+                key={event.id}
+                className="p-3 rounded-xl transition-smooth h-fit"
+                style={eventStyle.block}
+              >
+                <div className="flex flex-col gap-1">
+                  <div className="text-sm font-semibold text-primary truncate">
+                    {event.title}
+                  </div>
+                  <div className="text-xs font-semibold" style={{ color: eventStyle.accent }}>
+                    {event.allDay ? 'All Day' : formatTime(event.start, settings)}
+                  </div>
+                  {event.location && (
+                    <div className="text-xs text-tertiary truncate">
+                      📍 {event.location}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import type { DashboardCard } from '@/types';
+import type { WidgetDefinition } from './types';
+import ClockWidget from './ClockWidget';
+import DateWidget from './DateWidget';
+import AlertsWidget from './AlertsWidget';
+import CurrentConditionsWidget from './CurrentConditionsWidget';
+import DetailsWidget from './DetailsWidget';
+import HourlyWidget from './HourlyWidget';
+import ForecastWidget from './ForecastWidget';
+import ScheduleWidget from './ScheduleWidget';
+import TomorrowWidget from './TomorrowWidget';
+import HomeAssistantWidget from './HomeAssistantWidget';
+import DaylightWidget from './DaylightWidget';
+import MoonWidget from './MoonWidget';
+import AirQualityWidget from './AirQualityWidget';
+import LocationsWidget from './LocationsWidget';
+
+// Registered widgets by card id. A layout places them on the grid by this id;
+// to add a card, create its component, register it here and add the id to
+// DashboardCardSchema.
+export const WIDGETS: Record<DashboardCard, WidgetDefinition> = {
+  clock: {
+    label: 'Clock',
+    channel: null,
+    component: ClockWidget,
+    size: { minWidth: 420, minHeight: 180 },
+  },
+  date: {
+    label: 'Date',
+    channel: null,
+    component: DateWidget,
+    size: { minWidth: 200, minHeight: 200 },
+  },
+  alerts: {
+    label: 'Weather alerts',
+    channel: 'weather',
+    component: AlertsWidget,
+    size: { minWidth: 400, minHeight: 0, fitContent: true },
+  },
+  current: {
+    label: 'Current conditions',
+    channel: 'weather',
+    component: CurrentConditionsWidget,
+    size: { minWidth: 360, minHeight: 200 },
+  },
+  details: {
+    label: 'Weather details',
+    channel: 'weather',
+    component: DetailsWidget,
+    size: { minWidth: 360, minHeight: 180 },
+  },
+  hourly: {
+    label: 'Hourly forecast',
+    channel: 'weather',
+    component: HourlyWidget,
+    size: { minWidth: 360, minHeight: 200 },
+  },
+  forecast: {
+    label: '7-day forecast',
+    channel: 'weather',
+    component: ForecastWidget,
+    size: { minWidth: 360, minHeight: 200 },
+  },
+  calendar: {
+    label: 'Schedule',
+    channel: 'calendar',
+    component: ScheduleWidget,
+    size: { minWidth: 300, minHeight: 300 },
+  },
+  tomorrow: {
+    label: 'Tomorrow at a glance',
+    channel: 'calendar',
+    component: TomorrowWidget,
+    size: { minWidth: 300, minHeight: 160 },
+  },
+  daylight: {
+    label: 'Daylight',
+    channel: 'weather',
+    component: DaylightWidget,
+    size: { minWidth: 300, minHeight: 200 },
+  },
+  moon: {
+    label: 'Moon',
+    channel: 'weather',
+    component: MoonWidget,
+    size: { minWidth: 280, minHeight: 180 },
+  },
+  air: {
+    label: 'Air quality',
+    channel: 'weather',
+    component: AirQualityWidget,
+    size: { minWidth: 340, minHeight: 240 },
+  },
+  locations: {
+    label: 'Locations',
+    channel: 'weather',
+    component: LocationsWidget,
+    size: { minWidth: 240, minHeight: 180 },
+  },
+  home: {
+    label: 'Home Assistant',
+    channel: 'homeAssistant',
+    component: HomeAssistantWidget,
+    size: { minWidth: 280, minHeight: 140 },
+  },
+};
+
+export type { WidgetDefinition, WidgetSize, ChannelState } from './types';
@@ -0,0 +1,31 @@
+import type { ComponentType } from 'react';
+import type { CalendarData, DisplaySettings, HomeAssistantData, WeatherData } from '@/types';
+
+// Size contract of a widget: the smallest grid cell it renders legibly in.
+// Smaller cells show a notice instead of a clipped card.
+export interface WidgetSize {
+  minWidth: number; // px
+  minHeight: number; // px
+  // Height follows the content, for "auto" rows; renders nothing until data arrives
+  fitContent?: boolean;
+}
+
+interface WidgetBase {
+  label: string;
+  size: WidgetSize;
+}
+
+// Each widget declares which live channel it needs; the grid shows the channel's
+// loading and error states so widgets only ever render with data
+export type WidgetDefinition = WidgetBase & (
+  | { channel: 'weather'; component: ComponentType<{ data: WeatherData; settings: DisplaySettings }> }
+  | { channel: 'calendar'; component: ComponentType<{ data: CalendarData; settings: DisplaySettings }> }
+  | { channel: 'homeAssistant'; component: ComponentType<{ data: HomeAssistantData; settings: DisplaySettings }> }
+  | { channel: null; component: ComponentType<{ settings: DisplaySettings }> }
+);
+
+export interface ChannelState<T> {
+  data: T | null;
+  loading: boolean;
+  error: string | null;
+}
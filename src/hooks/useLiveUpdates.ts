@@ -0,0 +1,119 @@
+import { useEffect, useRef } from 'react';
+import type { LiveChannel } from '@/lib/liveUpdates';
+
+export interface LiveChannelHandler {
+  // Called with each payload pushed over /api/stream
+  onMessage: (payload: unknown) => void;
+  // Fetches the channel over plain HTTP while the stream is unavailable
+  poll: () => void;
+  // Fallback polling interval; polls are aligned to multiples of it (e.g. every :00 and :05)
+  pollIntervalMs: number;
+}
+
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+
+// Exponential backoff with +/-20% jitter so tablets don't reconnect in lockstep
+function getReconnectDelay(attempt: number): number {
+  const delay = Math.min(MIN_RECONNECT_DELAY_MS * 2 ** attempt, MAX_RECONNECT_DELAY_MS);
+  return delay * (0.8 + Math.random() * 0.4);
+}
+
+// Run `poll` now and then on every interval boundary; returns a cancel function
+function startAlignedPolling(poll: () => void, intervalMs: number): () => void {
+  let intervalId: ReturnType<typeof setInterval> | null = null;
+
+  poll();
+  const timeoutId = setTimeout(() => {
+    poll();
+    intervalId = setInterval(poll, intervalMs);
+  }, intervalMs - (Date.now() % intervalMs));
+
+  return () => {
+    clearTimeout(timeoutId);
+    if (intervalId) clearInterval(intervalId);
+  };
+}
+
+/**
+ * Keep dashboard data live over Server-Sent Events
+ * - Payloads are pushed by /api/stream only when they change
+ * - If the stream drops, it reconnects with exponential backoff and falls back
+ *   to polling each channel over HTTP until the stream is back
+ * - Browsers without EventSource only poll
+ * @param streamUrl - /api/stream, with the dashboard's ?profile= if any
+ */
+export function useLiveUpdates(handlers: Record<LiveChannel, LiveChannelHandler>, streamUrl = '/api/stream') {
+  // Handlers change every render; keep the latest without reconnecting
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    const channels = Object.keys(handlersRef.current) as LiveChannel[];
+    let eventSource: EventSource | null = null;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+    let stopPolling: Array<() => void> = [];
+    let attempt = 0;
+    let disposed = false;
+
+    const startPolling = () => {
+      if (stopPolling.length > 0) return;
+      stopPolling = channels.map((channel) => startAlignedPolling(
+        () => handlersRef.current[channel].poll(),
+        handlersRef.current[channel].pollIntervalMs
+      ));
+    };
+
+    const endPolling = () => {
+      stopPolling.forEach((stop) => stop());
+      stopPolling = [];
+    };
+
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+      return endPolling;
+    }
+
+    const connect = () => {
+      if (disposed) return;
+
+      eventSource = new EventSource(streamUrl);
+
+      eventSource.onopen = () => {
+        attempt = 0;
+        endPolling();
+      };
+
+      channels.forEach((channel) => {
+        eventSource?.addEventListener(channel, (event) => {
+          try {
+            handlersRef.current[channel].onMessage(JSON.parse((event as MessageEvent).data));
+          } catch (error) {
+            console.error(`Invalid ${channel} update:`, error);
+          }
+        });
+      });
+
+      eventSource.onerror = () => {
+        // Take over from EventSource's fixed retry so we can back off and poll meanwhile
+        eventSource?.close();
+        eventSource = null;
+        startPolling();
+
+        reconnectTimeout = setTimeout(connect, getReconnectDelay(attempt));
+        attempt++;
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      eventSource?.close();
+      if (reconnectTimeout) clearTimeout(reconnectTimeout);
+      endPolling();
+    };
+  }, [streamUrl]);
+}
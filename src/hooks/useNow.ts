@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * The current time, updated on each multiple of `intervalMs` (e.g. on the
+ * minute for 60000) so a display redraws when what it shows changes and no
+ * more often, which matters on e-ink panels
+ */
+export function useNow(intervalMs: number): Date {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    let intervalId: ReturnType<typeof setInterval> | null = null;
+
+    const timeoutId = setTimeout(() => {
+      setNow(new Date());
+      intervalId = setInterval(() => setNow(new Date()), intervalMs);
+    }, intervalMs - (Date.now() % intervalMs));
+
+    return () => {
+      clearTimeout(timeoutId);
+      if (intervalId) clearInterval(intervalId);
+    };
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,62 @@
+// Time scales and coordinate conversions shared by the sun and moon calculations.
+// Angles are in radians unless a name says otherwise.
+
+export const J2000 = 2451545.0; // Julian date of 2000-01-01 12:00 UTC
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Tilt of the Earth's axis
+const OBLIQUITY = toRadians(23.4397);
+
+export function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+export function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+export function toJulianDate(date: Date): number {
+  return date.getTime() / MS_PER_DAY + 2440587.5;
+}
+
+export function fromJulianDate(julianDate: number): Date {
+  return new Date((julianDate - 2440587.5) * MS_PER_DAY);
+}
+
+// Days since J2000, the time argument of the series below
+export function daysSinceJ2000(date: Date): number {
+  return toJulianDate(date) - J2000;
+}
+
+export interface EquatorialCoordinates {
+  rightAscension: number;
+  declination: number;
+}
+
+/**
+ * Equatorial coordinates of a point given in ecliptic longitude and latitude
+ */
+export function toEquatorial(longitude: number, latitude: number): EquatorialCoordinates {
+  return {
+    rightAscension: Math.atan2(
+      Math.sin(longitude) * Math.cos(OBLIQUITY) - Math.tan(latitude) * Math.sin(OBLIQUITY),
+      Math.cos(longitude)
+    ),
+    declination: Math.asin(
+      Math.sin(latitude) * Math.cos(OBLIQUITY) + Math.cos(latitude) * Math.sin(OBLIQUITY) * Math.sin(longitude)
+    ),
+  };
+}
+
+/**
+ * Altitude above the horizon of a body at `position`, seen from lat/lon (degrees)
+ */
+export function getAltitude(days: number, position: EquatorialCoordinates, lat: number, lon: number): number {
+  const siderealTime = toRadians(280.16 + 360.9856235 * days + lon);
+  const hourAngle = siderealTime - position.rightAscension;
+  const latitude = toRadians(lat);
+  return Math.asin(
+    Math.sin(latitude) * Math.sin(position.declination)
+      + Math.cos(latitude) * Math.cos(position.declination) * Math.cos(hourAngle)
+  );
+}
@@ -0,0 +1,163 @@
+import {
+  MS_PER_DAY,
+  daysSinceJ2000,
+  getAltitude,
+  toDegrees,
+  toEquatorial,
+  toRadians,
+  type EquatorialCoordinates,
+} from './coordinates';
+import { getSunPosition } from './sun';
+
+// Moon phase, rise and set from the low-precision lunar series of the Astronomical
+// Almanac (about 0.3° in longitude), enough for times within a few minutes and
+// phase dates within an hour. No weather provider fields are needed.
+
+const EARTH_RADIUS_KM = 6378.14;
+
+// Sampling for rise and set: the moon moves about 0.5° against the sky in 10 minutes
+const RISE_SET_STEP_MS = 10 * 60 * 1000;
+
+// Sampling for the next new or full moon, then bisection down to about a second
+const PHASE_SEARCH_STEP_MS = 6 * 60 * 60 * 1000;
+const PHASE_SEARCH_ITERATIONS = 20;
+const SYNODIC_MONTH_DAYS = 29.530589;
+
+interface MoonPosition extends EquatorialCoordinates {
+  longitude: number; // Ecliptic
+  latitude: number;
+  distance: number; // km
+}
+
+// Geocentric position of the moon, `days` after J2000
+function getMoonPosition(days: number): MoonPosition {
+  const meanLongitude = toRadians(218.316 + 13.176396 * days);
+  const anomaly = toRadians(134.963 + 13.064993 * days);
+  const argument = toRadians(93.272 + 13.22935 * days); // Distance from the ascending node
+  const elongation = toRadians(297.85 + 12.190749 * days);
+  const sunAnomaly = toRadians(357.529 + 0.98560028 * days);
+
+  const longitude = meanLongitude + toRadians(
+    6.289 * Math.sin(anomaly)
+      + 1.274 * Math.sin(2 * elongation - anomaly) // Evection
+      + 0.658 * Math.sin(2 * elongation) // Variation
+      + 0.214 * Math.sin(2 * anomaly)
+      - 0.186 * Math.sin(sunAnomaly) // Annual equation
+      - 0.114 * Math.sin(2 * argument)
+  );
+  const latitude = toRadians(
+    5.128 * Math.sin(argument)
+      + 0.28 * Math.sin(anomaly + argument)
+      + 0.277 * Math.sin(anomaly - argument)
+      + 0.173 * Math.sin(2 * elongation - argument)
+  );
+  const distance = 385001
+    - 20905 * Math.cos(anomaly)
+    - 3699 * Math.cos(2 * elongation - anomaly)
+    - 2956 * Math.cos(2 * elongation);
+
+  return { ...toEquatorial(longitude, latitude), longitude, latitude, distance };
+}
+
+function normalize(fraction: number): number {
+  return ((fraction % 1) + 1) % 1;
+}
+
+// Moon's ecliptic longitude ahead of the sun's as a fraction of a turn
+function getPhase(days: number, moon: MoonPosition = getMoonPosition(days)): number {
+  return normalize((moon.longitude - getSunPosition(days).longitude) / (2 * Math.PI));
+}
+
+export interface MoonIllumination {
+  phase: number; // 0 = new, 0.25 = first quarter, 0.5 = full, 0.75 = last quarter
+  fraction: number; // Lit fraction of the disc, 0-1
+}
+
+/**
+ * Phase and lit fraction of the moon at `date`
+ */
+export function getMoonIllumination(date: Date): MoonIllumination {
+  const days = daysSinceJ2000(date);
+  const moon = getMoonPosition(days);
+  const phase = getPhase(days, moon);
+
+  // Angle between sun and moon seen from Earth, allowing for the moon's latitude
+  const separation = Math.acos(Math.cos(2 * Math.PI * phase) * Math.cos(moon.latitude));
+  return { phase, fraction: (1 - Math.cos(separation)) / 2 };
+}
+
+export interface MoonTimes {
+  // null when the moon doesn't rise (or set) that day, which happens about once a month
+  rise: Date | null;
+  set: Date | null;
+}
+
+/**
+ * Moonrise and moonset between `dayStart` and 24 hours later
+ * @param dayStart - Local midnight of the day
+ * @param lat - Degrees north
+ * @param lon - Degrees east
+ */
+export function getMoonTimes(dayStart: Date, lat: number, lon: number): MoonTimes {
+  // Altitude of the moon's upper limb above the apparent horizon: parallax lowers it,
+  // refraction and the moon's radius lift it
+  const altitude = (time: number) => {
+    const days = daysSinceJ2000(new Date(time));
+    const moon = getMoonPosition(days);
+    const parallax = toDegrees(Math.asin(EARTH_RADIUS_KM / moon.distance));
+    return toDegrees(getAltitude(days, moon, lat, lon)) - (0.7275 * parallax - 0.5667);
+  };
+
+  const times: MoonTimes = { rise: null, set: null };
+  let previousTime = dayStart.getTime();
+  let previous = altitude(previousTime);
+
+  for (let time = previousTime + RISE_SET_STEP_MS; time <= dayStart.getTime() + MS_PER_DAY; time += RISE_SET_STEP_MS) {
+    const current = altitude(time);
+
+    if ((previous < 0) !== (current < 0)) {
+      const crossing = new Date(previousTime + (previous / (previous - current)) * RISE_SET_STEP_MS);
+      if (current >= 0) {
+        times.rise ??= crossing;
+      } else {
+        times.set ??= crossing;
+      }
+    }
+
+    previousTime = time;
+    previous = current;
+  }
+
+  return times;
+}
+
+/**
+ * The first new or full moon after `date`
+ */
+export function getNextMoonPhase(date: Date, phase: 'new' | 'full'): Date {
+  const target = phase === 'new' ? 0 : 0.5;
+  // Signed distance from the target phase, crossing zero upwards when the moon passes it
+  const offset = (time: number) => normalize(getPhase(daysSinceJ2000(new Date(time))) - target + 0.5) - 0.5;
+
+  let start = date.getTime();
+  let end = start;
+  const limit = start + (SYNODIC_MONTH_DAYS + 1) * MS_PER_DAY;
+  while (end < limit) {
+    end = start + PHASE_SEARCH_STEP_MS;
+    if (offset(start) < 0 && offset(end) >= 0) {
+      break;
+    }
+    start = end;
+  }
+
+  for (let iteration = 0; iteration < PHASE_SEARCH_ITERATIONS; iteration += 1) {
+    const middle = (start + end) / 2;
+    if (offset(middle) < 0) {
+      start = middle;
+    } else {
+      end = middle;
+    }
+  }
+
+  return new Date(end);
+}
@@ -0,0 +1,86 @@
+import {
+  J2000,
+  MS_PER_DAY,
+  fromJulianDate,
+  toDegrees,
+  toEquatorial,
+  toJulianDate,
+  toRadians,
+  type EquatorialCoordinates,
+} from './coordinates';
+
+// Sun times from the sunrise equation (https://en.wikipedia.org/wiki/Sunrise_equation),
+// accurate to about a minute away from the poles. Used for what weather providers
+// don't report: solar noon, civil twilight and the daylight of days outside their forecast.
+
+// Sun altitudes at each event: sunrise and sunset allow for refraction and the
+// sun's radius; civil twilight ends with the sun 6° below the horizon
+const SUNRISE_ALTITUDE = -0.833;
+const CIVIL_TWILIGHT_ALTITUDE = -6;
+
+// Mean anomaly and ecliptic longitude (from the equinox of date) of the sun, `days` after J2000
+function getSolarLongitude(days: number): { meanAnomaly: number; longitude: number } {
+  const meanAnomaly = toRadians(357.5291 + 0.98560028 * days);
+  const center = 1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly);
+  return { meanAnomaly, longitude: toRadians(280.46646 + 0.98564736 * days + center) };
+}
+
+/**
+ * Position of the sun, `days` after J2000
+ */
+export function getSunPosition(days: number): EquatorialCoordinates & { longitude: number } {
+  const { longitude } = getSolarLongitude(days);
+  return { ...toEquatorial(longitude, 0), longitude };
+}
+
+export interface SunTimes {
+  solarNoon: Date;
+  // null when the sun doesn't cross that altitude that day (polar day or night)
+  sunrise: Date | null;
+  sunset: Date | null;
+  civilDawn: Date | null;
+  civilDusk: Date | null;
+  dayLength: number; // Seconds from sunrise to sunset; 0 in polar night, a full day in midnight sun
+}
+
+/**
+ * Sun times of the day around `reference`
+ * @param reference - Any instant within about 12 hours of the day's solar noon, e.g. local midday
+ * @param lat - Degrees north
+ * @param lon - Degrees east
+ */
+export function getSunTimes(reference: Date, lat: number, lon: number): SunTimes {
+  // Whole days since J2000 at the location's solar noon and the sun's position at it
+  const day = Math.round(toJulianDate(reference) - J2000 + lon / 360);
+  const meanSolarNoon = day - lon / 360;
+  const { meanAnomaly, longitude } = getSolarLongitude(meanSolarNoon);
+  const transit = J2000 + meanSolarNoon + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * longitude);
+  const { declination } = toEquatorial(longitude, 0);
+  const latitude = toRadians(lat);
+
+  // Hour angle at which the sun is at `altitude`; NaN when it never gets there
+  const hourAngle = (altitude: number) => {
+    const cos = (Math.sin(toRadians(altitude)) - Math.sin(latitude) * Math.sin(declination))
+      / (Math.cos(latitude) * Math.cos(declination));
+    return cos < -1 || cos > 1 ? NaN : toDegrees(Math.acos(cos));
+  };
+  const around = (angle: number, sign: 1 | -1) => (Number.isNaN(angle) ? null : fromJulianDate(transit + (sign * angle) / 360));
+
+  const sunriseAngle = hourAngle(SUNRISE_ALTITUDE);
+  const twilightAngle = hourAngle(CIVIL_TWILIGHT_ALTITUDE);
+
+  // Without a sunrise the sun is up all day if it's above the horizon at noon
+  const noonAltitude = 90 - Math.abs(lat - toDegrees(declination));
+  const dayLength = Number.isNaN(sunriseAngle)
+    ? (noonAltitude > SUNRISE_ALTITUDE ? MS_PER_DAY / 1000 : 0)
+    : Math.round(((2 * sunriseAngle) / 360) * (MS_PER_DAY / 1000));
+
+  return {
+    solarNoon: fromJulianDate(transit),
+    sunrise: around(sunriseAngle, -1),
+    sunset: around(sunriseAngle, 1),
+    civilDawn: around(twilightAngle, -1),
+    civilDusk: around(twilightAngle, 1),
+    dayLength,
+  };
+}
@@ -0,0 +1,20 @@
+import { timingSafeEqual } from 'crypto';
+
+// Endpoints that change what tablets show (the Home Assistant webhook, night mode
+// overrides) are authenticated with "Authorization: Bearer <HOME_ASSISTANT_WEBHOOK_SECRET>"
+
+/**
+ * The shared secret, or null when those endpoints are disabled
+ */
+export function getWebhookSecret(): string | null {
+  return process.env.HOME_ASSISTANT_WEBHOOK_SECRET?.trim() || null;
+}
+
+/**
+ * Whether the request carries the secret as a bearer token, compared in constant time
+ */
+export function isAuthorized(request: Request, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get('authorization') || '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
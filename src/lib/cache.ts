@@ -0,0 +1,142 @@
+// In-memory response cache shared by every request handled by this server process
+// Implements stale-while-revalidate: fresh entries are served directly, expired
+// entries are served while a single background refresh runs, and the last good
+// value is kept as a fallback when the upstream fails.
+
+export type CacheStatus = 'hit' | 'miss' | 'revalidating' | 'stale';
+
+export interface CacheResult<T> {
+  value: T;
+  fetchedAt: Date;
+  // True when the upstream failed and this is the last good value
+  stale: boolean;
+  status: CacheStatus;
+}
+
+export interface CacheOptions {
+  // How long a value is considered fresh
+  ttlMs: number;
+  // How long past the TTL a value may be served while refreshing in the background
+  staleWhileRevalidateMs: number;
+  // Minimum time between upstream attempts after a failure
+  retryAfterMs?: number;
+}
+
+interface CacheEntry<T> {
+  value?: T;
+  fetchedAt: number;
+  failedAt?: number;
+  // Marked out of date before its TTL; the next get waits for a reload
+  expired?: boolean;
+  pending?: Promise<T>;
+}
+
+export interface ResponseCache<T> {
+  get(key: string, loader: () => Promise<T>): Promise<CacheResult<T>>;
+  // Reload on the next get, keeping the value as the fallback if that fails
+  expire(key?: string): void;
+  clear(key?: string): void;
+}
+
+export function createResponseCache<T>(name: string, options: CacheOptions): ResponseCache<T> {
+  const entries = new Map<string, CacheEntry<T>>();
+  const retryAfterMs = options.retryAfterMs ?? 60 * 1000;
+
+  const toResult = (entry: CacheEntry<T>, status: CacheStatus): CacheResult<T> => ({
+    value: entry.value as T,
+    fetchedAt: new Date(entry.fetchedAt),
+    stale: entry.failedAt !== undefined,
+    status: entry.failedAt !== undefined ? 'stale' : status,
+  });
+
+  // Start (or join) the upstream load for a key; concurrent callers share one request
+  const refresh = (key: string, entry: CacheEntry<T>, loader: () => Promise<T>): Promise<T> => {
+    if (!entry.pending) {
+      // Covers expiries so far; one arriving during the load asks for another
+      entry.expired = false;
+      entry.pending = loader()
+        .then((value) => {
+          entry.value = value;
+          entry.fetchedAt = Date.now();
+          entry.failedAt = undefined;
+          return value;
+        })
+        .catch((error) => {
+          entry.failedAt = Date.now();
+          console.error(`[cache:${name}] Refresh failed for ${key}:`, error);
+          throw error;
+        })
+        .finally(() => {
+          entry.pending = undefined;
+        });
+    }
+    return entry.pending;
+  };
+
+  return {
+    async get(key, loader) {
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = { fetchedAt: 0 };
+        entries.set(key, entry);
+      }
+
+      const now = Date.now();
+      const age = now - entry.fetchedAt;
+      const hasValue = entry.value !== undefined;
+      const recentlyFailed = entry.failedAt !== undefined && now - entry.failedAt < retryAfterMs;
+
+      if (hasValue && !entry.expired && age < options.ttlMs) {
+        return toResult(entry, 'hit');
+      }
+
+      // Back off after a failure and keep serving the last good value
+      if (hasValue && recentlyFailed) {
+        return toResult(entry, 'stale');
+      }
+
+      if (hasValue && !entry.expired && age < options.ttlMs + options.staleWhileRevalidateMs) {
+        refresh(key, entry, loader).catch(() => {
+          // Logged in refresh; the next request sees the failure via `stale`
+        });
+        return toResult(entry, 'revalidating');
+      }
+
+      try {
+        await refresh(key, entry, loader);
+        return toResult(entry, 'miss');
+      } catch (error) {
+        if (hasValue) {
+          return toResult(entry, 'stale');
+        }
+        throw error;
+      }
+    },
+
+    expire(key) {
+      (key ? [entries.get(key)] : [...entries.values()]).forEach((entry) => {
+        if (entry) entry.expired = true;
+      });
+    },
+
+    clear(key) {
+      if (key) {
+        entries.delete(key);
+      } else {
+        entries.clear();
+      }
+    },
+  };
+}
+
+/**
+ * Read a duration in seconds from an environment variable, in milliseconds
+ */
+export function getDurationFromEnv(name: string, defaultSeconds: number): number {
+  const raw = process.env[name];
+  const seconds = raw ? Number(raw) : NaN;
+  if (raw && (!Number.isFinite(seconds) || seconds < 0)) {
+    console.warn(`Invalid ${name} "${raw}", using ${defaultSeconds}s`);
+  }
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : defaultSeconds) * 1000;
+}
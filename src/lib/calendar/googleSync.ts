@@ -0,0 +1,200 @@
+import type { calendar_v3 } from 'googleapis';
+import { z } from 'zod';
+import type { CalendarRange } from './types';
+import { getDurationFromEnv } from '@/lib/cache';
+import { parsePayload } from '@/types/schema';
+
+// Per-calendar event store kept up to date with Google's incremental sync
+// (https://developers.google.com/calendar/api/guides/sync). The first request
+// lists a window of expanded instances and keeps the returned nextSyncToken;
+// later refreshes only fetch what changed since then.
+
+// Fields of events.list responses the dashboard relies on; validated per page so a
+// format change surfaces as a clear error instead of silently missing events
+const GoogleEventTimeSchema = z.object({
+  date: z.string().nullish(),
+  dateTime: z.string().nullish(),
+  timeZone: z.string().nullish(),
+});
+
+const GoogleEventSchema = z.object({
+  id: z.string(),
+  // Cancelled events in incremental results carry only id and status
+  status: z.string().nullish(),
+  summary: z.string().nullish(),
+  start: GoogleEventTimeSchema.nullish(),
+  end: GoogleEventTimeSchema.nullish(),
+  location: z.string().nullish(),
+  description: z.string().nullish(),
+  colorId: z.string().nullish(),
+});
+
+const GoogleEventListSchema = z.object({
+  items: z.array(GoogleEventSchema).nullish(),
+  nextPageToken: z.string().nullish(),
+  nextSyncToken: z.string().nullish(),
+});
+
+export type GoogleEvent = z.infer<typeof GoogleEventSchema>;
+
+interface CalendarStore {
+  events: Map<string, GoogleEvent>;
+  syncToken: string | null;
+  // Range covered by the last full sync; incremental syncs keep it current
+  windowStart: number;
+  windowEnd: number;
+  lastSyncedAt: number;
+  pending: Promise<void> | null;
+}
+
+// Extra time listed around the requested week so a store survives into the next week
+const WINDOW_LOOKBEHIND_MS = 7 * 24 * 60 * 60 * 1000;
+const WINDOW_LOOKAHEAD_MS = 28 * 24 * 60 * 60 * 1000;
+
+const stores = new Map<string, CalendarStore>();
+
+function isSyncTokenExpired(error: unknown): boolean {
+  const status = (error as { code?: number | string; status?: number })?.code ?? (error as { status?: number })?.status;
+  return Number(status) === 410;
+}
+
+// Full sync: replace the store with every instance in a window around the requested range
+async function fullSync(calendar: calendar_v3.Calendar, calendarId: string, store: CalendarStore, range: CalendarRange) {
+  const windowStart = range.start.getTime() - WINDOW_LOOKBEHIND_MS;
+  const windowEnd = range.end.getTime() + WINDOW_LOOKAHEAD_MS;
+  const events = new Map<string, GoogleEvent>();
+  let pageToken: string | undefined;
+  let syncToken: string | null = null;
+
+  do {
+    const response = await calendar.events.list({
+      calendarId,
+      timeMin: new Date(windowStart).toISOString(),
+      timeMax: new Date(windowEnd).toISOString(),
+      singleEvents: true,
+      maxResults: 2500,
+      pageToken,
+    });
+    const page = parsePayload(GoogleEventListSchema, response.data, `Google Calendar ${calendarId}`);
+
+    page.items?.forEach((event) => {
+      if (event.status !== 'cancelled') {
+        events.set(event.id, event);
+      }
+    });
+
+    pageToken = page.nextPageToken || undefined;
+    syncToken = page.nextSyncToken || syncToken;
+  } while (pageToken);
+
+  store.events = events;
+  store.syncToken = syncToken;
+  store.windowStart = windowStart;
+  store.windowEnd = windowEnd;
+  store.lastSyncedAt = Date.now();
+}
+
+// Incremental sync: apply changes since the last sync token; a 410 Gone means
+// the token expired and the store has to be rebuilt from scratch
+async function incrementalSync(calendar: calendar_v3.Calendar, calendarId: string, store: CalendarStore, range: CalendarRange) {
+  if (!store.syncToken) {
+    return fullSync(calendar, calendarId, store, range);
+  }
+
+  const changes: GoogleEvent[] = [];
+  let pageToken: string | undefined;
+  let syncToken = store.syncToken;
+
+  try {
+    do {
+      // timeMin/timeMax/orderBy are not allowed together with a sync token
+      const response = await calendar.events.list({
+        calendarId,
+        syncToken: store.syncToken,
+        singleEvents: true,
+        maxResults: 2500,
+        pageToken,
+      });
+      const page = parsePayload(GoogleEventListSchema, response.data, `Google Calendar ${calendarId}`);
+
+      changes.push(...(page.items || []));
+      pageToken = page.nextPageToken || undefined;
+      syncToken = page.nextSyncToken || syncToken;
+    } while (pageToken);
+  } catch (error) {
+    if (isSyncTokenExpired(error)) {
+      console.warn(`Sync token expired for calendar ${calendarId}, running full sync`);
+      return fullSync(calendar, calendarId, store, range);
+    }
+    throw error;
+  }
+
+  // Only apply once every page arrived so a failed page doesn't leave a half-updated store
+  changes.forEach((event) => {
+    if (event.status === 'cancelled') {
+      store.events.delete(event.id);
+    } else {
+      store.events.set(event.id, event);
+    }
+  });
+
+  store.syncToken = syncToken;
+  store.lastSyncedAt = Date.now();
+}
+
+function runSync(store: CalendarStore, sync: () => Promise<void>): Promise<void> {
+  if (!store.pending) {
+    store.pending = sync().finally(() => {
+      store.pending = null;
+    });
+  }
+  return store.pending;
+}
+
+function overlapsRange(event: GoogleEvent, range: CalendarRange): boolean {
+  const start = event.start?.dateTime || event.start?.date;
+  const end = event.end?.dateTime || event.end?.date || start;
+  if (!start || !end) return false;
+
+  // Same semantics as events.list timeMin/timeMax: end after range start, start before range end
+  return new Date(end).getTime() > range.start.getTime() && new Date(start).getTime() < range.end.getTime();
+}
+
+/**
+ * Events for a calendar within the range, served from the in-memory store
+ * - The first request (or one outside the synced window) waits for a full sync
+ * - Otherwise the store is returned immediately and, once GOOGLE_SYNC_INTERVAL_SECONDS
+ *   has passed, an incremental sync runs in the background
+ */
+export async function getSyncedEvents(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  range: CalendarRange
+): Promise<GoogleEvent[]> {
+  let store = stores.get(calendarId);
+  if (!store) {
+    store = { events: new Map(), syncToken: null, windowStart: 0, windowEnd: 0, lastSyncedAt: 0, pending: null };
+    stores.set(calendarId, store);
+  }
+
+  const syncStore = store;
+  const coversRange = syncStore.lastSyncedAt > 0
+    && range.start.getTime() >= syncStore.windowStart
+    && range.end.getTime() <= syncStore.windowEnd;
+
+  if (!coversRange) {
+    await runSync(syncStore, () => fullSync(calendar, calendarId, syncStore, range));
+  } else if (Date.now() - syncStore.lastSyncedAt > getDurationFromEnv('GOOGLE_SYNC_INTERVAL_SECONDS', 30)) {
+    runSync(syncStore, () => incrementalSync(calendar, calendarId, syncStore, range)).catch((error) => {
+      console.error(`Incremental sync failed for calendar ${calendarId}:`, error);
+    });
+  }
+
+  return Array.from(syncStore.events.values())
+    .filter((event) => overlapsRange(event, range))
+    .sort((a, b) => {
+      const aStart = new Date(a.start?.dateTime || a.start?.date || 0).getTime();
+      const bStart = new Date(b.start?.dateTime || b.start?.date || 0).getTime();
+      return aStart - bStart;
+    });
+}
@@ -0,0 +1,35 @@
+import { getEnabledCalendarSources, fetchEventsFromSources } from './sources';
+import type { CalendarData } from '@/types';
+import { ConfigurationError } from '@/lib/errors';
+import { toCalendarInfo } from '@/lib/config';
+import { getProfile } from '@/lib/config/profiles';
+import { getDisplaySettings } from '@/lib/settings';
+import { getWeekRange } from '@/utils/dateTime';
+
+/**
+ * Merged events for the current week from the profile's calendars (every
+ * visible calendar by default), with the calendars' display details
+ * Throws ConfigurationError when no calendar is configured
+ */
+export async function getCalendar(profileId?: string | null): Promise<CalendarData> {
+  const { calendars } = getProfile(profileId);
+  const sources = getEnabledCalendarSources(calendars);
+
+  if (sources.length === 0) {
+    throw new ConfigurationError('No calendars configured. Add calendars to dashboard.config.json or set GOOGLE_CALENDAR_IDS and/or ICAL_URLS.');
+  }
+
+  // Get events for the current week in the dashboard timezone (as UTC instants for API calls)
+  const settings = getDisplaySettings();
+  const { start: weekStart, end: weekEnd } = getWeekRange(settings);
+
+  // Merge events from every enabled source (Google, iCal, ...)
+  const events = await fetchEventsFromSources(sources, { start: weekStart, end: weekEnd, timeZone: settings.timeZone });
+
+  return {
+    calendars: calendars.map(toCalendarInfo),
+    events,
+    weekStart: weekStart.toISOString(),
+    weekEnd: weekEnd.toISOString(),
+  };
+}
@@ -0,0 +1,76 @@
+import { google, calendar_v3 } from 'googleapis';
+import type { CalendarEvent, CalendarRange, CalendarSource } from '../types';
+import { getSyncedEvents } from '../googleSync';
+import type { GoogleCalendarConfig } from '@/lib/config';
+import { ConfigurationError } from '@/lib/errors';
+
+// Reuse the client between requests so its access token is cached too
+let cachedClient: { clientEmail: string; calendar: calendar_v3.Calendar } | null = null;
+
+export function createGoogleCalendarClient(clientEmail: string, privateKey: string) {
+  if (cachedClient?.clientEmail === clientEmail) {
+    return cachedClient.calendar;
+  }
+
+  // Create JWT auth client
+  const auth = new google.auth.JWT({
+    email: clientEmail,
+    key: privateKey.replace(/\\n/g, '\n'),
+    scopes: ['https://www.googleapis.com/auth/calendar.readonly'],
+  });
+
+  const calendar = google.calendar({ version: 'v3', auth });
+  cachedClient = { clientEmail, calendar };
+  return calendar;
+}
+
+/**
+ * Google Calendar source using a service account
+ * Enabled when the configuration has at least one visible Google calendar;
+ * GOOGLE_CLIENT_EMAIL and GOOGLE_PRIVATE_KEY must then be set
+ */
+export function createGoogleSource(calendars: GoogleCalendarConfig[]): CalendarSource | null {
+  if (calendars.length === 0) {
+    return null;
+  }
+
+  const clientEmail = process.env.GOOGLE_CLIENT_EMAIL;
+  const privateKey = process.env.GOOGLE_PRIVATE_KEY;
+
+  if (!clientEmail || !privateKey) {
+    throw new ConfigurationError('Google calendars are configured but GOOGLE_CLIENT_EMAIL and GOOGLE_PRIVATE_KEY are not set');
+  }
+
+  return {
+    id: 'google',
+    async fetchEvents(range: CalendarRange) {
+      const calendar = createGoogleCalendarClient(clientEmail, privateKey);
+
+      // Fetch events from all calendars in parallel
+      const allCalendarPromises = calendars.map(async ({ id, calendarId }): Promise<CalendarEvent[]> => {
+        try {
+          // Served from the incrementally synced store rather than listing every poll
+          const items = await getSyncedEvents(calendar, calendarId, range);
+
+          return items.map((event) => ({
+            id: event.id,
+            title: event.summary || 'Untitled',
+            start: event.start?.dateTime || event.start?.date || '',
+            end: event.end?.dateTime || event.end?.date || '',
+            allDay: !event.start?.dateTime,
+            location: event.location || undefined,
+            description: event.description || undefined,
+            colorId: event.colorId || undefined,
+            calendarId: id, // Track which configured calendar this event belongs to
+          }));
+        } catch (error) {
+          console.error(`Error fetching calendar ${calendarId}:`, error);
+          return []; // Return empty array if a calendar fails
+        }
+      });
+
+      // Flatten and merge all events from all Google calendars
+      return (await Promise.all(allCalendarPromises)).flat();
+    },
+  };
+}
@@ -0,0 +1,275 @@
+import ICAL from 'ical.js';
+import type { CalendarEvent, CalendarRange, CalendarSource } from '../types';
+import type { ICalCalendarConfig } from '@/lib/config';
+import { registerTimezones, icalTimeToDate } from '../timezones';
+import { createResponseCache, getDurationFromEnv } from '@/lib/cache';
+
+// Upper bound on recurrence iterations per event, guards against runaway RRULEs;
+// fixed-period rules start close to the week, so this only counts nearby occurrences
+const MAX_RECURRENCE_ITERATIONS = 10000;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Length in seconds of one period of the rules that can skip ahead; months and years vary
+const PERIOD_SECONDS: Partial<Record<ICAL.Recur['freq'], number>> = {
+  SECONDLY: 1,
+  MINUTELY: 60,
+  HOURLY: 60 * 60,
+  DAILY: DAY_SECONDS,
+  WEEKLY: 7 * DAY_SECONDS,
+};
+
+// Expansion runs on wall-clock times, so pad the window by a day and filter exactly afterwards
+const EXPANSION_PADDING_MS = 24 * 60 * 60 * 1000;
+
+interface ICalOccurrence {
+  item: ICAL.Event;
+  startDate: ICAL.Time;
+  endDate: ICAL.Time;
+  recurrenceId?: ICAL.Time;
+}
+
+// Format a single occurrence into the dashboard event shape, or null if it falls outside the week
+function toCalendarEvent(occurrence: ICalOccurrence, range: CalendarRange, calendarId: string): CalendarEvent | null {
+  const { item, startDate: start, endDate: end, recurrenceId } = occurrence;
+  const { start: weekStart, end: weekEnd } = range;
+  const isAllDay = start.isDate;
+
+  // For all-day events, use date strings to avoid timezone issues
+  let startStr: string;
+  let endStr: string;
+
+  if (isAllDay) {
+    // Extract YYYY-MM-DD format directly
+    const startYear = start.year;
+    const startMonth = String(start.month).padStart(2, '0');
+    const startDay = String(start.day).padStart(2, '0');
+    startStr = `${startYear}-${startMonth}-${startDay}`;
+
+    const endYear = end.year;
+    const endMonth = String(end.month).padStart(2, '0');
+    const endDay = String(end.day).padStart(2, '0');
+    endStr = `${endYear}-${endMonth}-${endDay}`;
+
+    // Filter using simple date comparison
+    const startDate = new Date(startYear, start.month - 1, start.day);
+    const endDate = new Date(endYear, end.month - 1, end.day);
+    const weekStartLocal = new Date(weekStart.getTime());
+    const weekEndLocal = new Date(weekEnd.getTime());
+
+    if (endDate < weekStartLocal || startDate > weekEndLocal) {
+      return null;
+    }
+  } else {
+    // For timed events, resolve the TZID (or floating time) and use ISO strings
+    const startTzid = getTzid(item, 'dtstart');
+    const startDate = icalTimeToDate(start, startTzid, range.timeZone);
+    const endDate = icalTimeToDate(end, getTzid(item, 'dtend') || startTzid, range.timeZone);
+
+    if (endDate < weekStart || startDate > weekEnd) {
+      return null;
+    }
+
+    startStr = startDate.toISOString();
+    endStr = endDate.toISOString();
+  }
+
+  return {
+    // Instances of a recurring event share a UID, so suffix the recurrence id like Google does
+    id: recurrenceId ? `${item.uid}_${recurrenceId.toString()}` : item.uid,
+    title: item.summary || 'Untitled',
+    start: startStr,
+    end: endStr,
+    allDay: isAllDay,
+    location: item.location,
+    description: item.description,
+    colorId: undefined,
+    calendarId,
+  };
+}
+
+// TZID parameter of a date property; ical.js drops unknown TZIDs when parsing the value
+function getTzid(event: ICAL.Event, propertyName: string): string | undefined {
+  const tzid = event.component.getFirstProperty(propertyName)?.getParameter('tzid');
+  return Array.isArray(tzid) ? tzid[0] : tzid || undefined;
+}
+
+function isCancelled(event: ICAL.Event): boolean {
+  return String(event.component.getFirstPropertyValue('status') || '').toUpperCase() === 'CANCELLED';
+}
+
+// Where to start expanding: DTSTART moved forward by whole periods of its rule to
+// shortly before the range, so old or dense series don't spend the iteration cap
+// on past occurrences. Rules with COUNT or several RRULEs expand from DTSTART.
+function getExpansionStart(event: ICAL.Event, rangeStart: ICAL.Time): ICAL.Time {
+  const dtstart = event.startDate;
+  const rules = event.component.getAllProperties('rrule');
+  if (rules.length !== 1) return dtstart;
+
+  const rule = rules[0].getFirstValue() as ICAL.Recur;
+  const period = PERIOD_SECONDS[rule.freq];
+  if (!period || rule.count) return dtstart;
+
+  // Keep a period of slack plus the event's length so the new start, which the
+  // iterator always yields, ends before the range and is filtered out
+  const step = period * (rule.interval || 1);
+  const elapsed = rangeStart.subtractDate(dtstart).toSeconds() - event.duration.toSeconds();
+  const periods = Math.floor(elapsed / step) - 1;
+  if (periods <= 0) return dtstart;
+
+  const start = dtstart.clone();
+  if (period % DAY_SECONDS === 0) {
+    // Whole days keep the wall-clock time across DST changes
+    start.adjust((periods * step) / DAY_SECONDS, 0, 0, 0);
+  } else {
+    start.adjust(0, 0, 0, periods * step);
+  }
+  return start;
+}
+
+// Expand an event into its occurrences overlapping the week, applying EXDATEs,
+// RECURRENCE-ID overrides and cancelled instances
+function expandOccurrences(event: ICAL.Event, weekStart: Date, weekEnd: Date): ICalOccurrence[] {
+  if (!event.isRecurring()) {
+    return isCancelled(event) ? [] : [{ item: event, startDate: event.startDate, endDate: event.endDate }];
+  }
+
+  const rangeStart = ICAL.Time.fromJSDate(new Date(weekStart.getTime() - EXPANSION_PADDING_MS), true);
+  const rangeEnd = ICAL.Time.fromJSDate(new Date(weekEnd.getTime() + EXPANSION_PADDING_MS), true);
+  const occurrences: ICalOccurrence[] = [];
+  const seen = new Set<string>();
+
+  // The iterator yields original recurrence ids (RRULE + RDATE, minus EXDATE);
+  // getOccurrenceDetails swaps in the overridden instance where one exists
+  const expansionStart = getExpansionStart(event, rangeStart);
+  const iterator = event.iterator(expansionStart);
+  let next: ICAL.Time | null;
+  let iterations = 0;
+
+  while ((next = iterator.next()) && iterations++ < MAX_RECURRENCE_ITERATIONS) {
+    if (next.compare(rangeEnd) > 0) break;
+
+    const details = event.getOccurrenceDetails(next);
+    seen.add(next.toString());
+
+    if (details.endDate.compare(rangeStart) < 0 || isCancelled(details.item)) continue;
+
+    occurrences.push({
+      item: details.item,
+      startDate: details.startDate,
+      endDate: details.endDate,
+      recurrenceId: details.recurrenceId,
+    });
+  }
+
+  // Overrides whose original slot is outside the expanded span can still be moved into the week
+  Object.values(event.exceptions).forEach((exception) => {
+    const recurrenceId = exception.recurrenceId;
+    if (!recurrenceId || seen.has(recurrenceId.toString()) || isCancelled(exception)) return;
+    if (recurrenceId.compare(expansionStart) >= 0 && recurrenceId.compare(rangeEnd) <= 0) return;
+
+    occurrences.push({
+      item: exception,
+      startDate: exception.startDate,
+      endDate: exception.endDate,
+      recurrenceId,
+    });
+  });
+
+  return occurrences;
+}
+
+// Raw feed text is shared between requests; feeds rarely change and are slow to download
+const feedCache = createResponseCache<string>('ical', {
+  ttlMs: getDurationFromEnv('ICAL_CACHE_TTL_SECONDS', 60),
+  staleWhileRevalidateMs: getDurationFromEnv('ICAL_CACHE_SWR_SECONDS', 600),
+});
+
+async function downloadFeed(icalUrl: string): Promise<string> {
+  const response = await fetch(icalUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch iCal: ${response.status}`);
+  }
+  return response.text();
+}
+
+// Function to fetch and parse iCal feed
+async function fetchICalEvents(icalUrl: string, range: CalendarRange, calendarId: string): Promise<CalendarEvent[]> {
+  try {
+    const { value: icalData } = await feedCache.get(icalUrl, () => downloadFeed(icalUrl));
+    const jcalData = ICAL.parse(icalData);
+    const comp = new ICAL.Component(jcalData);
+
+    // Property values are decoded lazily, so zones registered here apply to every event below
+    registerTimezones(comp);
+
+    const vevents = comp.getAllSubcomponents('vevent');
+
+    // Group RECURRENCE-ID overrides by UID so each series only picks up its own exceptions
+    const overridesByUid = new Map<string, ICAL.Component[]>();
+    const masters: ICAL.Component[] = [];
+
+    vevents.forEach((vevent) => {
+      if (vevent.hasProperty('recurrence-id')) {
+        const uid = String(vevent.getFirstPropertyValue('uid'));
+        overridesByUid.set(uid, [...(overridesByUid.get(uid) || []), vevent]);
+      } else {
+        masters.push(vevent);
+      }
+    });
+
+    const events = masters.flatMap((vevent) => {
+      const uid = String(vevent.getFirstPropertyValue('uid'));
+      const event = new ICAL.Event(vevent, {
+        strictExceptions: true,
+        exceptions: overridesByUid.get(uid) || [],
+      });
+      overridesByUid.delete(uid);
+
+      return expandOccurrences(event, range.start, range.end);
+    });
+
+    // Overrides without a master in the feed are shown as standalone instances
+    overridesByUid.forEach((overrides) => {
+      overrides.forEach((vevent) => {
+        const event = new ICAL.Event(vevent);
+        if (!isCancelled(event)) {
+          events.push({
+            item: event,
+            startDate: event.startDate,
+            endDate: event.endDate,
+            recurrenceId: event.recurrenceId,
+          });
+        }
+      });
+    });
+
+    return events
+      .map((occurrence) => toCalendarEvent(occurrence, range, calendarId))
+      .filter((event): event is CalendarEvent => event !== null);
+  } catch (error) {
+    console.error(`Error fetching iCal from ${icalUrl}:`, error);
+    return [];
+  }
+}
+
+/**
+ * iCal feed source for public/secret .ics URLs (Apple, Outlook, Google, ...)
+ * Enabled when the configuration has at least one visible iCal calendar
+ */
+export function createICalSource(calendars: ICalCalendarConfig[]): CalendarSource | null {
+  if (calendars.length === 0) {
+    return null;
+  }
+
+  return {
+    id: 'ical',
+    async fetchEvents(range: CalendarRange) {
+      const icalPromises = calendars.map(async (calendar) => {
+        return await fetchICalEvents(calendar.url, range, calendar.id);
+      });
+
+      return (await Promise.all(icalPromises)).flat();
+    },
+  };
+}
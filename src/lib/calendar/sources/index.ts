@@ -0,0 +1,41 @@
+import type { CalendarEvent, CalendarRange, CalendarSource } from '../types';
+import { createGoogleSource } from './google';
+import { createICalSource } from './ical';
+import type { CalendarConfig, GoogleCalendarConfig, ICalCalendarConfig } from '@/lib/config';
+
+/**
+ * One source per calendar type that has configured calendars
+ * Sources return null when none of their calendars are configured
+ */
+export function getEnabledCalendarSources(calendars: CalendarConfig[]): CalendarSource[] {
+  const sources = [
+    createGoogleSource(calendars.filter((calendar): calendar is GoogleCalendarConfig => calendar.type === 'google')),
+    createICalSource(calendars.filter((calendar): calendar is ICalCalendarConfig => calendar.type === 'ical')),
+  ];
+
+  return sources.filter((source): source is CalendarSource => source !== null);
+}
+
+/**
+ * Fetch and merge events from every enabled source, sorted by start time
+ * A failing source is logged and skipped so the others still render
+ */
+export async function fetchEventsFromSources(sources: CalendarSource[], range: CalendarRange): Promise<CalendarEvent[]> {
+  const sourcePromises = sources.map((source) => {
+    return source.fetchEvents(range).catch((error) => {
+      console.error(`Error fetching calendar source ${source.id}:`, error);
+      return [];
+    });
+  });
+
+  const events = (await Promise.all(sourcePromises)).flat();
+
+  // Sort all events by start time
+  events.sort((a, b) => {
+    const aStart = new Date(a.start).getTime();
+    const bStart = new Date(b.start).getTime();
+    return aStart - bStart;
+  });
+
+  return events;
+}
@@ -0,0 +1,250 @@
+import ICAL from 'ical.js';
+import { fromZonedTime } from 'date-fns-tz';
+
+// Windows time zone names (as used by Outlook/Exchange TZIDs) to IANA zones
+// Based on the CLDR windowsZones "001" territory mapping
+const WINDOWS_TO_IANA: { [key: string]: string } = {
+  'Dateline Standard Time': 'Etc/GMT+12',
+  'UTC-11': 'Etc/GMT+11',
+  'Aleutian Standard Time': 'America/Adak',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'Marquesas Standard Time': 'Pacific/Marquesas',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'UTC-09': 'Etc/GMT+9',
+  'Pacific Standard Time (Mexico)': 'America/Tijuana',
+  'UTC-08': 'Etc/GMT+8',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Mountain Standard Time (Mexico)': 'America/Mazatlan',
+  'Mountain Standard Time': 'America/Denver',
+  'Yukon Standard Time': 'America/Whitehorse',
+  'Central America Standard Time': 'America/Guatemala',
+  'Central Standard Time': 'America/Chicago',
+  'Easter Island Standard Time': 'Pacific/Easter',
+  'Central Standard Time (Mexico)': 'America/Mexico_City',
+  'Canada Central Standard Time': 'America/Regina',
+  'SA Pacific Standard Time': 'America/Bogota',
+  'Eastern Standard Time (Mexico)': 'America/Cancun',
+  'Eastern Standard Time': 'America/New_York',
+  'Haiti Standard Time': 'America/Port-au-Prince',
+  'Cuba Standard Time': 'America/Havana',
+  'US Eastern Standard Time': 'America/Indianapolis',
+  'Turks And Caicos Standard Time': 'America/Grand_Turk',
+  'Paraguay Standard Time': 'America/Asuncion',
+  'Atlantic Standard Time': 'America/Halifax',
+  'Venezuela Standard Time': 'America/Caracas',
+  'Central Brazilian Standard Time': 'America/Cuiaba',
+  'SA Western Standard Time': 'America/La_Paz',
+  'Pacific SA Standard Time': 'America/Santiago',
+  'Newfoundland Standard Time': 'America/St_Johns',
+  'Tocantins Standard Time': 'America/Araguaina',
+  'E. South America Standard Time': 'America/Sao_Paulo',
+  'SA Eastern Standard Time': 'America/Cayenne',
+  'Argentina Standard Time': 'America/Buenos_Aires',
+  'Greenland Standard Time': 'America/Godthab',
+  'Montevideo Standard Time': 'America/Montevideo',
+  'Magallanes Standard Time': 'America/Punta_Arenas',
+  'Saint Pierre Standard Time': 'America/Miquelon',
+  'Bahia Standard Time': 'America/Bahia',
+  'UTC-02': 'Etc/GMT+2',
+  'Azores Standard Time': 'Atlantic/Azores',
+  'Cape Verde Standard Time': 'Atlantic/Cape_Verde',
+  'UTC': 'Etc/UTC',
+  'GMT Standard Time': 'Europe/London',
+  'Greenwich Standard Time': 'Atlantic/Reykjavik',
+  'Sao Tome Standard Time': 'Africa/Sao_Tome',
+  'Morocco Standard Time': 'Africa/Casablanca',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'W. Central Africa Standard Time': 'Africa/Lagos',
+  'Jordan Standard Time': 'Asia/Amman',
+  'GTB Standard Time': 'Europe/Bucharest',
+  'Middle East Standard Time': 'Asia/Beirut',
+  'Egypt Standard Time': 'Africa/Cairo',
+  'E. Europe Standard Time': 'Europe/Chisinau',
+  'Syria Standard Time': 'Asia/Damascus',
+  'West Bank Standard Time': 'Asia/Hebron',
+  'South Africa Standard Time': 'Africa/Johannesburg',
+  'FLE Standard Time': 'Europe/Kiev',
+  'Israel Standard Time': 'Asia/Jerusalem',
+  'South Sudan Standard Time': 'Africa/Juba',
+  'Kaliningrad Standard Time': 'Europe/Kaliningrad',
+  'Sudan Standard Time': 'Africa/Khartoum',
+  'Libya Standard Time': 'Africa/Tripoli',
+  'Namibia Standard Time': 'Africa/Windhoek',
+  'Arabic Standard Time': 'Asia/Baghdad',
+  'Turkey Standard Time': 'Europe/Istanbul',
+  'Arab Standard Time': 'Asia/Riyadh',
+  'Belarus Standard Time': 'Europe/Minsk',
+  'Russian Standard Time': 'Europe/Moscow',
+  'E. Africa Standard Time': 'Africa/Nairobi',
+  'Volgograd Standard Time': 'Europe/Volgograd',
+  'Iran Standard Time': 'Asia/Tehran',
+  'Arabian Standard Time': 'Asia/Dubai',
+  'Astrakhan Standard Time': 'Europe/Astrakhan',
+  'Azerbaijan Standard Time': 'Asia/Baku',
+  'Russia Time Zone 3': 'Europe/Samara',
+  'Mauritius Standard Time': 'Indian/Mauritius',
+  'Saratov Standard Time': 'Europe/Saratov',
+  'Georgian Standard Time': 'Asia/Tbilisi',
+  'Caucasus Standard Time': 'Asia/Yerevan',
+  'Afghanistan Standard Time': 'Asia/Kabul',
+  'West Asia Standard Time': 'Asia/Tashkent',
+  'Ekaterinburg Standard Time': 'Asia/Yekaterinburg',
+  'Pakistan Standard Time': 'Asia/Karachi',
+  'Qyzylorda Standard Time': 'Asia/Qyzylorda',
+  'India Standard Time': 'Asia/Calcutta',
+  'Sri Lanka Standard Time': 'Asia/Colombo',
+  'Nepal Standard Time': 'Asia/Katmandu',
+  'Central Asia Standard Time': 'Asia/Almaty',
+  'Bangladesh Standard Time': 'Asia/Dhaka',
+  'Omsk Standard Time': 'Asia/Omsk',
+  'Myanmar Standard Time': 'Asia/Rangoon',
+  'SE Asia Standard Time': 'Asia/Bangkok',
+  'Altai Standard Time': 'Asia/Barnaul',
+  'W. Mongolia Standard Time': 'Asia/Hovd',
+  'North Asia Standard Time': 'Asia/Krasnoyarsk',
+  'N. Central Asia Standard Time': 'Asia/Novosibirsk',
+  'Tomsk Standard Time': 'Asia/Tomsk',
+  'China Standard Time': 'Asia/Shanghai',
+  'North Asia East Standard Time': 'Asia/Irkutsk',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'W. Australia Standard Time': 'Australia/Perth',
+  'Taipei Standard Time': 'Asia/Taipei',
+  'Ulaanbaatar Standard Time': 'Asia/Ulaanbaatar',
+  'Aus Central W. Standard Time': 'Australia/Eucla',
+  'Transbaikal Standard Time': 'Asia/Chita',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'North Korea Standard Time': 'Asia/Pyongyang',
+  'Korea Standard Time': 'Asia/Seoul',
+  'Yakutsk Standard Time': 'Asia/Yakutsk',
+  'Cen. Australia Standard Time': 'Australia/Adelaide',
+  'AUS Central Standard Time': 'Australia/Darwin',
+  'E. Australia Standard Time': 'Australia/Brisbane',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'West Pacific Standard Time': 'Pacific/Port_Moresby',
+  'Tasmania Standard Time': 'Australia/Hobart',
+  'Vladivostok Standard Time': 'Asia/Vladivostok',
+  'Lord Howe Standard Time': 'Australia/Lord_Howe',
+  'Bougainville Standard Time': 'Pacific/Bougainville',
+  'Russia Time Zone 10': 'Asia/Srednekolymsk',
+  'Magadan Standard Time': 'Asia/Magadan',
+  'Norfolk Standard Time': 'Pacific/Norfolk',
+  'Sakhalin Standard Time': 'Asia/Sakhalin',
+  'Central Pacific Standard Time': 'Pacific/Guadalcanal',
+  'Russia Time Zone 11': 'Asia/Kamchatka',
+  'New Zealand Standard Time': 'Pacific/Auckland',
+  'UTC+12': 'Etc/GMT-12',
+  'Fiji Standard Time': 'Pacific/Fiji',
+  'Chatham Islands Standard Time': 'Pacific/Chatham',
+  'UTC+13': 'Etc/GMT-13',
+  'Tonga Standard Time': 'Pacific/Tongatapu',
+  'Samoa Standard Time': 'Pacific/Apia',
+  'Line Islands Standard Time': 'Pacific/Kiritimati',
+};
+
+// Older Outlook exports use display names like "(UTC-05:00) Eastern Time (US & Canada)"
+const WINDOWS_DISPLAY_NAMES: { [key: string]: string } = {
+  'Eastern Time (US & Canada)': 'America/New_York',
+  'Central Time (US & Canada)': 'America/Chicago',
+  'Mountain Time (US & Canada)': 'America/Denver',
+  'Pacific Time (US & Canada)': 'America/Los_Angeles',
+  'Atlantic Time (Canada)': 'America/Halifax',
+  'Newfoundland': 'America/St_Johns',
+  'Dublin, Edinburgh, Lisbon, London': 'Europe/London',
+  'Amsterdam, Berlin, Bern, Rome, Stockholm, Vienna': 'Europe/Berlin',
+  'Brussels, Copenhagen, Madrid, Paris': 'Europe/Paris',
+};
+
+const ianaZoneCache = new Map<string, boolean>();
+
+function isIanaZone(zone: string): boolean {
+  if (!ianaZoneCache.has(zone)) {
+    let valid = false;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: zone });
+      valid = zone.includes('/') || zone === 'UTC';
+    } catch {
+      valid = false;
+    }
+    ianaZoneCache.set(zone, valid);
+  }
+  return ianaZoneCache.get(zone) as boolean;
+}
+
+/**
+ * Resolve an iCal TZID to an IANA time zone name
+ * Handles IANA ids, Windows zone names, Outlook display names and
+ * prefixed ids such as "/mozilla.org/20050126_1/America/New_York"
+ * @returns IANA zone name, or null when the TZID is unknown
+ */
+export function resolveTimeZone(tzid: string | null | undefined): string | null {
+  if (!tzid) return null;
+
+  const name = tzid.trim().replace(/^"|"$/g, '');
+
+  if (isIanaZone(name)) return name;
+  if (WINDOWS_TO_IANA[name]) return WINDOWS_TO_IANA[name];
+
+  const displayName = name.replace(/^\(UTC[^)]*\)\s*/, '');
+  if (WINDOWS_DISPLAY_NAMES[displayName]) return WINDOWS_DISPLAY_NAMES[displayName];
+
+  // Vendor-prefixed ids end with a regular Area/Location id
+  const segments = name.split('/').filter(Boolean);
+  for (let i = 0; i < segments.length - 1; i++) {
+    const candidate = segments.slice(i).join('/');
+    if (isIanaZone(candidate)) return candidate;
+  }
+
+  return null;
+}
+
+/**
+ * Register every VTIMEZONE in a feed with ICAL.TimezoneService so TZIDs that
+ * ical.js cannot resolve from the component tree still get their rules
+ * Zones already registered (e.g. by another feed) are left untouched
+ */
+export function registerTimezones(calendar: ICAL.Component): void {
+  calendar.getAllSubcomponents('vtimezone').forEach((vtimezone) => {
+    const tzid = vtimezone.getFirstPropertyValue('tzid');
+    if (!tzid || ICAL.TimezoneService.has(String(tzid))) return;
+
+    try {
+      ICAL.TimezoneService.register(vtimezone);
+    } catch (error) {
+      console.error(`Failed to register VTIMEZONE ${tzid}:`, error);
+    }
+  });
+}
+
+/**
+ * Convert an ICAL.Time to an absolute instant
+ * - UTC times convert directly
+ * - TZIDs that resolve to an IANA zone (incl. Windows names) use IANA rules
+ * - Otherwise a VTIMEZONE definition from the feed is used if present
+ * - Floating times (no TZID) are interpreted in the dashboard's time zone
+ * @param time - Parsed ical.js time
+ * @param tzid - TZID parameter of the source property, if any
+ * @param floatingZone - IANA zone used for floating times
+ */
+export function icalTimeToDate(time: ICAL.Time, tzid: string | null | undefined, floatingZone: string): Date {
+  if (time.zone === ICAL.Timezone.utcTimezone) {
+    return time.toJSDate();
+  }
+
+  const ianaZone = resolveTimeZone(tzid || time.zone?.tzid);
+  // toString() yields the wall-clock time without an offset, e.g. 2025-03-10T09:00:00
+  const wallClock = time.toString();
+
+  if (ianaZone) {
+    return fromZonedTime(wallClock, ianaZone);
+  }
+
+  if (time.zone && time.zone !== ICAL.Timezone.localTimezone) {
+    return time.toJSDate();
+  }
+
+  return fromZonedTime(wallClock, floatingZone);
+}
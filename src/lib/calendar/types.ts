@@ -0,0 +1,21 @@
+import type { CalendarEvent } from '@/types';
+
+// Event shape produced by every calendar source and returned by /api/calendar
+export type { CalendarEvent };
+
+export interface CalendarRange {
+  start: Date;
+  end: Date;
+  // Dashboard IANA time zone, used for times that carry no zone of their own
+  timeZone: string;
+}
+
+/**
+ * A provider of calendar events (Google, iCal, ...) for the configured calendars
+ * of its type. Each event carries the id of the configured calendar it came from,
+ * which is what colors and priorities are looked up by.
+ */
+export interface CalendarSource {
+  id: string;
+  fetchEvents(range: CalendarRange): Promise<CalendarEvent[]>;
+}
@@ -0,0 +1,366 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import {
+  DashboardConfigFileSchema,
+  type CalendarConfigInput,
+  type DashboardConfigFile,
+  type HomeAssistantEntityConfig,
+  type NightModeConfig,
+  type ProfileConfigInput,
+} from './schema';
+import { ConfigurationError } from '@/lib/errors';
+import { getDurationFromEnv } from '@/lib/cache';
+import type { AirQualityScale } from '@/lib/weather/airQuality';
+import type { WeatherLocation } from '@/lib/weather/types';
+import type { CalendarInfo, DashboardCard, DashboardLayout, DisplayTheme } from '@/types';
+import { DEFAULT_LAYOUT, selectCards, validateLayout } from './layout';
+import { formatValidationIssues } from '@/types/schema';
+
+// Dashboard configuration, read from dashboard.config.json (or .yaml/.yml, or the
+// file named by DASHBOARD_CONFIG) and completed from environment variables for
+// anything the file leaves out. The file is re-read when it changes on disk.
+
+const CONFIG_FILE_CANDIDATES = ['dashboard.config.json', 'dashboard.config.yaml', 'dashboard.config.yml'];
+
+// Colors given to calendars without their own, in order
+const DEFAULT_CALENDAR_COLORS = [
+  { color: '#0a84ff', textColor: '#64d2ff', backgroundColor: 'rgba(10, 132, 255, 0.15)' },
+  { color: '#ff453a', textColor: '#ff6961', backgroundColor: 'rgba(255, 69, 58, 0.15)' },
+  { color: '#ffd60a', textColor: '#ffd60a', backgroundColor: 'rgba(255, 214, 10, 0.15)' },
+  { color: '#64d2ff', textColor: '#64d2ff', backgroundColor: 'rgba(100, 210, 255, 0.15)' },
+  { color: '#1A2D4F', textColor: '#7a9fd4', backgroundColor: 'rgba(26, 45, 79, 0.5)' },
+  { color: '#ff9f0a', textColor: '#ff9f0a', backgroundColor: 'rgba(255, 159, 10, 0.15)' },
+  { color: '#30d158', textColor: '#30d158', backgroundColor: 'rgba(48, 209, 88, 0.15)' },
+  { color: '#ac8e68', textColor: '#ac8e68', backgroundColor: 'rgba(172, 142, 104, 0.15)' },
+];
+
+const FALLBACK_CALENDAR_COLOR = { color: '#8e8e93', textColor: '#8e8e93', backgroundColor: 'rgba(142, 142, 147, 0.15)' };
+
+interface CalendarDisplay {
+  label: string;
+  color: string;
+  textColor: string;
+  backgroundColor: string;
+  visible: boolean;
+  priority: number;
+}
+
+export type GoogleCalendarConfig = CalendarDisplay & { id: string; type: 'google'; calendarId: string };
+export type ICalCalendarConfig = CalendarDisplay & { id: string; type: 'ical'; url: string };
+export type CalendarConfig = GoogleCalendarConfig | ICalCalendarConfig;
+
+export interface ProfileConfig {
+  label: string;
+  calendarIds: string[] | null; // null: all visible calendars
+  location: WeatherLocation | null; // null: the dashboard's weather location
+  locationIds: string[] | null; // null: every named location
+  cards: DashboardCard[] | null; // null: every card in the layout
+  layout: DashboardLayout | null; // null: the dashboard's layout
+  theme: DisplayTheme | null; // null: the dashboard's theme
+  nightMode: NightModeConfig | false | null; // false: no schedule; null: the dashboard's schedule
+  entityIds: string[] | null; // null: every Home Assistant entity
+}
+
+export interface DashboardConfig {
+  // Raw display values; validated with env fallbacks by getDisplaySettings
+  display: NonNullable<DashboardConfigFile['display']>;
+  weather: {
+    provider?: string;
+    location: WeatherLocation | null;
+    locations: Record<string, WeatherLocation>; // Named locations by id, in config order
+    airQualityIndex: AirQualityScale;
+  };
+  calendars: CalendarConfig[];
+  layout: DashboardLayout;
+  profiles: Record<string, ProfileConfig>;
+  nightMode: NightModeConfig | null; // null: no schedule
+  homeAssistant: {
+    url: string | null;
+    entities: HomeAssistantEntityConfig[];
+  };
+  refresh: {
+    weatherPollMs: number;
+    calendarPollMs: number;
+    streamWeatherMs: number;
+    streamCalendarMs: number;
+    homeAssistantPollMs: number;
+    streamHomeAssistantMs: number;
+  };
+  // Loaded file, or null when everything comes from the environment
+  file: string | null;
+}
+
+let cached: { key: string; config: DashboardConfig } | null = null;
+
+function findConfigFile(): string | null {
+  const configured = process.env.DASHBOARD_CONFIG?.trim();
+  if (configured) {
+    const file = path.resolve(configured);
+    if (!fs.existsSync(file)) {
+      throw new ConfigurationError(`DASHBOARD_CONFIG file not found: ${file}`);
+    }
+    return file;
+  }
+
+  return CONFIG_FILE_CANDIDATES
+    .map((name) => path.resolve(name))
+    .find((file) => fs.existsSync(file)) || null;
+}
+
+function readConfigFile(file: string): DashboardConfigFile {
+  let raw: unknown;
+  try {
+    const text = fs.readFileSync(file, 'utf8');
+    raw = /\.ya?ml$/i.test(file) ? YAML.parse(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigurationError(`Could not read ${path.basename(file)}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = DashboardConfigFileSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    throw new ConfigurationError(`Invalid ${path.basename(file)}: ${formatValidationIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+// "#0a84ff" -> "rgba(10, 132, 255, 0.15)"
+function toTint(hex: string, alpha = 0.15): string {
+  const digits = hex.slice(1).length === 3 ? hex.slice(1).replace(/./g, '$&$&') : hex.slice(1);
+  const [r, g, b] = [0, 2, 4].map((offset) => parseInt(digits.slice(offset, offset + 2), 16));
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+function defaultLabel(calendar: CalendarConfigInput): string {
+  if (calendar.type === 'google') {
+    return calendar.calendarId;
+  }
+  try {
+    return new URL(calendar.url).hostname;
+  } catch {
+    return calendar.id;
+  }
+}
+
+function resolveCalendar(calendar: CalendarConfigInput, position: number): CalendarConfig {
+  const palette = DEFAULT_CALENDAR_COLORS[position] || FALLBACK_CALENDAR_COLOR;
+  const color = calendar.color || palette.color;
+
+  return {
+    ...calendar,
+    label: calendar.label || defaultLabel(calendar),
+    color,
+    textColor: calendar.textColor || (calendar.color ? calendar.color : palette.textColor),
+    backgroundColor: calendar.backgroundColor || (calendar.color ? toTint(calendar.color) : palette.backgroundColor),
+  };
+}
+
+// Calendars from GOOGLE_CALENDAR_IDS and ICAL_URLS, in that order, as before the config file existed
+function getCalendarsFromEnv(): CalendarConfigInput[] {
+  const split = (value: string | undefined) => (value || '').split(',').map((item) => item.trim()).filter(Boolean);
+
+  const calendars: CalendarConfigInput[] = [
+    ...split(process.env.GOOGLE_CALENDAR_IDS).map((calendarId, index) => ({
+      id: `google-${index + 1}`,
+      type: 'google' as const,
+      calendarId,
+      visible: true,
+      priority: 0,
+    })),
+    ...split(process.env.ICAL_URLS).map((url, index) => ({
+      id: `ical-${index + 1}`,
+      type: 'ical' as const,
+      url,
+      visible: true,
+      priority: 0,
+    })),
+  ];
+
+  // Later calendars were listed first; keep that order
+  return calendars.map((calendar, index) => ({ ...calendar, priority: index }));
+}
+
+// ENVIRONMENT_CANADA_ALERTS_URL: feeds for the dashboard's location, comma separated
+function getEnvironmentCanadaAlertsFromEnv(): string[] | undefined {
+  const urls = process.env.ENVIRONMENT_CANADA_ALERTS_URL?.split(',').map((url) => url.trim()).filter(Boolean);
+  return urls && urls.length > 0 ? urls : undefined;
+}
+
+// NWS_ALERTS=true: US National Weather Service alerts for the dashboard's location
+function getNwsAlertsFromEnv(): boolean | undefined {
+  return process.env.NWS_ALERTS === 'true' || undefined;
+}
+
+function getWeatherLocationFromEnv(): WeatherLocation | null {
+  const lat = process.env.WEATHER_LAT || process.env.OPENWEATHERMAP_LAT;
+  const lon = process.env.WEATHER_LON || process.env.OPENWEATHERMAP_LON;
+  if (!lat || !lon) {
+    return null;
+  }
+  return {
+    lat,
+    lon,
+    name: process.env.WEATHER_LOCATION_NAME || process.env.OPENWEATHERMAP_CITY,
+    environmentCanadaAlerts: getEnvironmentCanadaAlertsFromEnv(),
+    nwsAlerts: getNwsAlertsFromEnv(),
+  };
+}
+
+// AIR_QUALITY_INDEX: us (default) or aqhi
+function getAirQualityIndexFromEnv(): AirQualityScale {
+  const value = process.env.AIR_QUALITY_INDEX?.trim().toLowerCase();
+  if (!value) {
+    return 'us';
+  }
+  if (value !== 'us' && value !== 'aqhi') {
+    throw new ConfigurationError(`Invalid AIR_QUALITY_INDEX "${value}" (expected us or aqhi)`);
+  }
+  return value;
+}
+
+function toWeatherLocation(location: {
+  lat: number;
+  lon: number;
+  name?: string;
+  environmentCanadaAlerts?: string[];
+  nwsAlerts?: boolean;
+}): WeatherLocation {
+  return {
+    lat: String(location.lat),
+    lon: String(location.lon),
+    name: location.name,
+    environmentCanadaAlerts: location.environmentCanadaAlerts,
+    nwsAlerts: location.nwsAlerts,
+  };
+}
+
+function resolveProfile(
+  id: string,
+  profile: ProfileConfigInput,
+  calendars: CalendarConfig[],
+  entities: HomeAssistantEntityConfig[],
+  locations: Record<string, WeatherLocation>,
+  defaultLayout: DashboardLayout
+): ProfileConfig {
+  const unknown = profile.calendars?.find((calendarId) => !calendars.some((calendar) => calendar.id === calendarId));
+  if (unknown) {
+    throw new ConfigurationError(`Profile "${id}" lists unknown calendar "${unknown}"`);
+  }
+
+  const unknownEntity = profile.entities?.find((entityId) => !entities.some((entity) => entity.entityId === entityId));
+  if (unknownEntity) {
+    throw new ConfigurationError(`Profile "${id}" lists unknown entity "${unknownEntity}"; add it to homeAssistant.entities`);
+  }
+
+  const location = profile.weather?.location;
+  const unknownLocation = [...(typeof location === 'string' ? [location] : []), ...(profile.weather?.locations || [])]
+    .find((locationId) => !Object.hasOwn(locations, locationId));
+  if (unknownLocation) {
+    throw new ConfigurationError(`Profile "${id}" lists unknown location "${unknownLocation}"; add it to weather.locations`);
+  }
+
+  const layout = profile.layout ? validateLayout(profile.layout, `profiles.${id}.layout`) : null;
+  if (profile.cards) {
+    // Every chosen card must have a place in the layout
+    selectCards(layout || defaultLayout, profile.cards, `profiles.${id}`);
+  }
+
+  return {
+    label: profile.label || id,
+    calendarIds: profile.calendars || null,
+    location: typeof location === 'string' ? locations[location] : location ? toWeatherLocation(location) : null,
+    locationIds: profile.weather?.locations || null,
+    cards: profile.cards || null,
+    layout,
+    theme: profile.theme || null,
+    nightMode: profile.nightMode ?? null,
+    entityIds: profile.entities || null,
+  };
+}
+
+function resolveConfig(file: string | null, config: DashboardConfigFile): DashboardConfig {
+  const location = config.weather?.location;
+  const refresh = config.refresh || {};
+  const calendars = (config.calendars || getCalendarsFromEnv()).map(resolveCalendar);
+  const layout = config.layout ? validateLayout(config.layout, 'layout') : DEFAULT_LAYOUT;
+  const entities = config.homeAssistant?.entities || [];
+  // Named locations are labelled with their id unless they have a name
+  const locations = Object.fromEntries(
+    Object.entries(config.weather?.locations || {}).map(([id, named]) => [id, toWeatherLocation({ ...named, name: named.name || id })])
+  );
+  const seconds = (value: number | undefined, envName: string, defaultSeconds: number) =>
+    value !== undefined ? value * 1000 : getDurationFromEnv(envName, defaultSeconds);
+
+  return {
+    display: config.display || {},
+    weather: {
+      provider: config.weather?.provider,
+      // ENVIRONMENT_CANADA_ALERTS_URL and NWS_ALERTS cover the dashboard's own location only
+      location: location
+        ? toWeatherLocation({
+          ...location,
+          environmentCanadaAlerts: location.environmentCanadaAlerts ?? getEnvironmentCanadaAlertsFromEnv(),
+          nwsAlerts: location.nwsAlerts ?? getNwsAlertsFromEnv(),
+        })
+        : getWeatherLocationFromEnv(),
+      locations,
+      airQualityIndex: config.weather?.airQualityIndex ?? getAirQualityIndexFromEnv(),
+    },
+    calendars,
+    layout,
+    profiles: Object.fromEntries(
+      Object.entries(config.profiles || {}).map(([id, profile]) => [id, resolveProfile(id, profile, calendars, entities, locations, layout)])
+    ),
+    nightMode: config.nightMode || null,
+    homeAssistant: {
+      url: config.homeAssistant?.url || process.env.HOME_ASSISTANT_URL?.trim() || null,
+      entities,
+    },
+    refresh: {
+      weatherPollMs: (refresh.weatherPollSeconds ?? 300) * 1000,
+      calendarPollMs: (refresh.calendarPollSeconds ?? 60) * 1000,
+      streamWeatherMs: seconds(refresh.streamWeatherSeconds, 'STREAM_WEATHER_INTERVAL_SECONDS', 60),
+      streamCalendarMs: seconds(refresh.streamCalendarSeconds, 'STREAM_CALENDAR_INTERVAL_SECONDS', 10),
+      homeAssistantPollMs: (refresh.homeAssistantPollSeconds ?? 60) * 1000,
+      streamHomeAssistantMs: seconds(refresh.streamHomeAssistantSeconds, 'STREAM_HOME_ASSISTANT_INTERVAL_SECONDS', 10),
+    },
+    file,
+  };
+}
+
+/**
+ * The dashboard configuration, from the config file when there is one
+ * Throws ConfigurationError when the file can't be read or fails validation
+ */
+export function getDashboardConfig(): DashboardConfig {
+  const file = findConfigFile();
+  const key = file ? `${file}:${fs.statSync(file).mtimeMs}` : 'env';
+
+  if (cached?.key !== key) {
+    cached = { key, config: resolveConfig(file, file ? readConfigFile(file) : {}) };
+  }
+  return cached.config;
+}
+
+/**
+ * Calendars that are fetched and shown, most important first
+ */
+export function getVisibleCalendars(config: DashboardConfig = getDashboardConfig()): CalendarConfig[] {
+  return config.calendars
+    .filter((calendar) => calendar.visible)
+    .sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * Display details of calendars sent to tablets (no URLs or ids of upstream calendars)
+ */
+export function toCalendarInfo(calendar: CalendarConfig): CalendarInfo {
+  return {
+    id: calendar.id,
+    label: calendar.label,
+    color: calendar.color,
+    textColor: calendar.textColor,
+    backgroundColor: calendar.backgroundColor,
+    priority: calendar.priority,
+  };
+}
@@ -0,0 +1,136 @@
+import { ConfigurationError } from '@/lib/errors';
+import type { DashboardCard, DashboardLayout, WidgetPlacement } from '@/types';
+
+// Layouts place cards on a CSS grid. The config file can replace the default
+// layout for every dashboard or for one profile; a profile that only picks
+// cards gets the layout with the other cards removed and empty tracks closed up.
+
+// The original dashboard: weather cards on the left, the schedule and tomorrow's
+// glance on the right. The clock spans the first two columns and the date card
+// the third, while the rows below split the same columns in half.
+export const DEFAULT_LAYOUT: DashboardLayout = {
+  columns: ['5fr', '1.5fr', '3.5fr', '420px'],
+  rows: ['1fr', 'auto', '224px', '224px'],
+  gap: 16,
+  widgets: [
+    { widget: 'clock', column: 1, row: 1, columnSpan: 2, rowSpan: 1 },
+    { widget: 'date', column: 3, row: 1, columnSpan: 1, rowSpan: 1 },
+    { widget: 'alerts', column: 1, row: 2, columnSpan: 3, rowSpan: 1 },
+    { widget: 'current', column: 1, row: 3, columnSpan: 1, rowSpan: 1 },
+    { widget: 'details', column: 2, row: 3, columnSpan: 2, rowSpan: 1 },
+    { widget: 'hourly', column: 1, row: 4, columnSpan: 1, rowSpan: 1 },
+    { widget: 'forecast', column: 2, row: 4, columnSpan: 2, rowSpan: 1 },
+    { widget: 'calendar', column: 4, row: 1, columnSpan: 1, rowSpan: 3 },
+    { widget: 'tomorrow', column: 4, row: 4, columnSpan: 1, rowSpan: 1 },
+  ],
+};
+
+// Data each card is drawn from, as in the widget registry; lets the server skip
+// loading what a profile's layout doesn't show
+export const CARD_DATA: Record<DashboardCard, 'weather' | 'calendar' | 'homeAssistant' | null> = {
+  clock: null,
+  date: null,
+  alerts: 'weather',
+  current: 'weather',
+  details: 'weather',
+  hourly: 'weather',
+  forecast: 'weather',
+  calendar: 'calendar',
+  tomorrow: 'calendar',
+  home: 'homeAssistant',
+  daylight: 'weather',
+  moon: 'weather',
+  air: 'weather',
+  locations: 'weather',
+};
+
+/**
+ * Whether any card of the layout is drawn from this data
+ */
+export function layoutUses(layout: DashboardLayout, data: 'weather' | 'calendar' | 'homeAssistant'): boolean {
+  return layout.widgets.some((placement) => CARD_DATA[placement.widget] === data);
+}
+
+/**
+ * Check that every card fits inside the grid, appears once and doesn't overlap another
+ * @param name - Where the layout came from, for error messages (e.g. "profiles.kitchen.layout")
+ * @throws ConfigurationError describing the first problem
+ */
+export function validateLayout(layout: DashboardLayout, name: string): DashboardLayout {
+  const occupied = new Map<string, DashboardCard>();
+  const seen = new Set<DashboardCard>();
+
+  for (const placement of layout.widgets) {
+    const { widget, column, row, columnSpan, rowSpan } = placement;
+
+    if (seen.has(widget)) {
+      throw new ConfigurationError(`${name}: card "${widget}" is placed more than once`);
+    }
+    seen.add(widget);
+
+    if (column + columnSpan - 1 > layout.columns.length || row + rowSpan - 1 > layout.rows.length) {
+      throw new ConfigurationError(
+        `${name}: card "${widget}" extends past the ${layout.columns.length}x${layout.rows.length} grid`
+      );
+    }
+
+    for (let c = column; c < column + columnSpan; c++) {
+      for (let r = row; r < row + rowSpan; r++) {
+        const other = occupied.get(`${c},${r}`);
+        if (other) {
+          throw new ConfigurationError(`${name}: cards "${other}" and "${widget}" overlap at column ${c}, row ${r}`);
+        }
+        occupied.set(`${c},${r}`, widget);
+      }
+    }
+  }
+
+  return layout;
+}
+
+// Drop tracks no remaining card touches and renumber placements to match
+function collapseTracks(
+  tracks: string[],
+  placements: WidgetPlacement[],
+  start: (placement: WidgetPlacement) => number,
+  span: (placement: WidgetPlacement) => number
+): { tracks: string[]; renumber: (line: number) => number } {
+  const used = new Set<number>();
+  placements.forEach((placement) => {
+    for (let line = start(placement); line < start(placement) + span(placement); line++) {
+      used.add(line);
+    }
+  });
+
+  const kept = tracks.map((_, index) => index + 1).filter((line) => used.has(line));
+  return {
+    tracks: kept.map((line) => tracks[line - 1]),
+    renumber: (line) => kept.indexOf(line) + 1,
+  };
+}
+
+/**
+ * The layout showing only the given cards
+ * @throws ConfigurationError when a card has no place in the layout
+ */
+export function selectCards(layout: DashboardLayout, cards: DashboardCard[], name: string): DashboardLayout {
+  const missing = cards.find((card) => !layout.widgets.some((placement) => placement.widget === card));
+  if (missing) {
+    throw new ConfigurationError(`${name}: card "${missing}" has no place in the layout`);
+  }
+
+  const widgets = layout.widgets.filter((placement) => cards.includes(placement.widget));
+  const columns = collapseTracks(layout.columns, widgets, (p) => p.column, (p) => p.columnSpan);
+  const rows = collapseTracks(layout.rows, widgets, (p) => p.row, (p) => p.rowSpan);
+
+  return {
+    columns: columns.tracks,
+    rows: rows.tracks,
+    gap: layout.gap,
+    widgets: widgets.map((placement) => ({
+      ...placement,
+      column: columns.renumber(placement.column),
+      row: rows.renumber(placement.row),
+    })),
+  };
+}
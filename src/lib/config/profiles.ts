@@ -0,0 +1,71 @@
+import { getDashboardConfig, getVisibleCalendars, type CalendarConfig, type DashboardConfig } from './index';
+import { selectCards } from './layout';
+import type { HomeAssistantEntityConfig, NightModeConfig } from './schema';
+import { UnknownProfileError } from '@/lib/errors';
+import type { WeatherLocation } from '@/lib/weather/types';
+import type { DashboardLayout, DisplayTheme } from '@/types';
+
+// Profiles give each tablet its own dashboard at /d/<profile id>: which calendars,
+// which weather location and which cards in what layout. The dashboard at / is
+// the default profile, showing everything configured.
+
+export interface DashboardProfile {
+  id: string | null; // null for the default dashboard
+  label: string;
+  calendars: CalendarConfig[]; // Most important first
+  location: WeatherLocation | null;
+  locationIds: string[]; // Named locations on the locations card
+  layout: DashboardLayout; // Only the profile's cards
+  theme: DisplayTheme | null; // null: the dashboard's theme
+  nightMode: NightModeConfig | null; // null: no night schedule
+  entities: HomeAssistantEntityConfig[]; // Home Assistant entities on the home card
+}
+
+/**
+ * Resolve a profile against the dashboard config
+ * @param profileId - Profile from the URL; the default profile when empty
+ * @throws UnknownProfileError when no profile has this id
+ * @throws ConfigurationError when the config file is invalid
+ */
+export function getProfile(profileId?: string | null, config: DashboardConfig = getDashboardConfig()): DashboardProfile {
+  if (!profileId) {
+    return {
+      id: null,
+      label: 'Dashboard',
+      calendars: getVisibleCalendars(config),
+      location: config.weather.location,
+      locationIds: Object.keys(config.weather.locations),
+      layout: config.layout,
+      theme: null,
+      nightMode: config.nightMode,
+      entities: config.homeAssistant.entities,
+    };
+  }
+
+  const profile = Object.hasOwn(config.profiles, profileId) ? config.profiles[profileId] : undefined;
+  if (!profile) {
+    throw new UnknownProfileError(profileId);
+  }
+
+  const calendars = profile.calendarIds
+    ? config.calendars
+      .filter((calendar) => profile.calendarIds?.includes(calendar.id))
+      .sort((a, b) => b.priority - a.priority)
+    : getVisibleCalendars(config);
+
+  const layout = profile.layout || config.layout;
+
+  return {
+    id: profileId,
+    label: profile.label,
+    calendars,
+    location: profile.location || config.weather.location,
+    locationIds: profile.locationIds || Object.keys(config.weather.locations),
+    layout: profile.cards ? selectCards(layout, profile.cards, `profiles.${profileId}`) : layout,
+    theme: profile.theme,
+    nightMode: profile.nightMode === null ? config.nightMode : profile.nightMode || null,
+    entities: profile.entityIds
+      ? config.homeAssistant.entities.filter((entity) => profile.entityIds?.includes(entity.entityId))
+      : config.homeAssistant.entities,
+  };
+}
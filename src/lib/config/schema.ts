@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { DashboardCardSchema, DashboardLayoutSchema, UnitSettingsSchema } from '@/types/schema';
+
+// Shape of dashboard.config.json / dashboard.config.yaml
+// Every section is optional; anything left out falls back to environment variables.
+// Secrets (API keys, Google credentials) always stay in the environment.
+
+const IdSchema = z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'Use letters, numbers, "-" and "_"');
+
+const HexColorSchema = z.string().regex(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i, 'Expected a hex color such as #0a84ff');
+
+const CalendarFields = {
+  // Stable identifier used for colors and profiles; reordering calendars doesn't change it
+  id: IdSchema,
+  label: z.string().optional(),
+  color: HexColorSchema.optional(),
+  textColor: HexColorSchema.optional(),
+  backgroundColor: z.string().optional(), // Any CSS color, e.g. rgba(10, 132, 255, 0.15)
+  // Hidden calendars are not fetched
+  visible: z.boolean().default(true),
+  // Higher priority calendars are listed first among all-day events
+  priority: z.number().default(0),
+};
+
+export const GoogleCalendarConfigSchema = z.strictObject({
+  ...CalendarFields,
+  type: z.literal('google'),
+  calendarId: z.string().min(1),
+});
+
+export const ICalCalendarConfigSchema = z.strictObject({
+  ...CalendarFields,
+  type: z.literal('ical'),
+  url: z.url(),
+});
+
+export const CalendarConfigSchema = z.discriminatedUnion('type', [
+  GoogleCalendarConfigSchema,
+  ICalCalendarConfigSchema,
+]);
+
+const DisplayThemeSchema = z.enum(['color', 'eink', 'eink-grayscale']);
+
+const UnitSystemSchema = z.enum(['metric', 'imperial', 'uk']);
+
+// A unit system, or a system with some quantities overridden, e.g.
+// { system: metric, precipitation: mm }
+const UnitsSchema = z.union([
+  UnitSystemSchema,
+  UnitSettingsSchema.partial().extend({ system: UnitSystemSchema.optional() }).strict(),
+]);
+
+// "22:30", or "sunset" / "sunrise" with an optional offset in minutes, e.g. "sunset+30"
+const NightTimeSchema = z.string().regex(
+  /^(([01]\d|2[0-3]):[0-5]\d|sunrise([+-]\d+)?|sunset([+-]\d+)?)$/,
+  'Expected HH:MM, sunrise or sunset, optionally with an offset in minutes such as sunset+30'
+);
+
+export const NightModeConfigSchema = z.strictObject({
+  start: NightTimeSchema,
+  end: NightTimeSchema,
+  // Variant shown when night starts; tapping the screen switches to the other
+  mode: z.enum(['dim', 'dark']).default('dim'),
+});
+
+export const HomeAssistantEntityConfigSchema = z.strictObject({
+  entityId: z.string().regex(/^[a-z_]+\.[a-z0-9_]+$/, 'Expected an entity id such as lock.front_door'),
+  // Defaults to the entity's friendly name in Home Assistant
+  label: z.string().optional(),
+});
+
+const SecondsSchema = z.number().positive();
+
+const LocationSchema = z.strictObject({
+  name: z.string().optional(),
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+  // Environment Canada alert feed URLs for the location's region
+  environmentCanadaAlerts: z.array(z.url()).optional(),
+  // US National Weather Service alerts, for locations in the US
+  nwsAlerts: z.boolean().optional(),
+});
+
+// A tablet's dashboard at /d/<profile id>; anything left out uses the dashboard-wide settings
+export const ProfileConfigSchema = z.strictObject({
+  label: z.string().optional(),
+  // Calendar ids to show, including hidden ones; all visible calendars when omitted
+  calendars: z.array(IdSchema).optional(),
+  weather: z.strictObject({
+    // Coordinates, or the id of a location in weather.locations
+    location: z.union([LocationSchema, IdSchema]).optional(),
+    // Ids from weather.locations on the locations card; all of them when omitted
+    locations: z.array(IdSchema).optional(),
+  }).optional(),
+  // Cards to show from the layout; every card the layout places when omitted
+  cards: z.array(DashboardCardSchema).min(1).optional(),
+  layout: DashboardLayoutSchema.optional(),
+  // e.g. eink for an e-reader on the hallway wall; the dashboard's theme when omitted
+  theme: DisplayThemeSchema.optional(),
+  // Its own night schedule, or false for none; the dashboard's schedule when omitted
+  nightMode: z.union([NightModeConfigSchema, z.literal(false)]).optional(),
+  // Ids of the Home Assistant entities to show; all of them when omitted
+  entities: z.array(z.string()).optional(),
+});
+
+export const DashboardConfigFileSchema = z.strictObject({
+  display: z.strictObject({
+    timeZone: z.string().optional(),
+    locale: z.string().optional(),
+    hourCycle: z.union([z.literal(12), z.literal(24)]).optional(),
+    weekStart: z.union([z.number().int().min(0).max(6), z.string()]).optional(),
+    theme: DisplayThemeSchema.optional(),
+    units: UnitsSchema.optional(),
+  }).optional(),
+
+  weather: z.strictObject({
+    provider: z.enum(['openweathermap', 'open-meteo']).optional(),
+    location: LocationSchema.optional(),
+    // Other places to follow, e.g. a cottage; served by /api/weather?location=<id> and shown on the locations card
+    locations: z.record(IdSchema, LocationSchema).optional(),
+    // Air quality index computed from pollutant concentrations: US AQI or Canada's AQHI
+    airQualityIndex: z.enum(['us', 'aqhi']).optional(),
+  }).optional(),
+
+  calendars: z.array(CalendarConfigSchema)
+    .refine(
+      (calendars) => new Set(calendars.map((calendar) => calendar.id)).size === calendars.length,
+      'Calendar ids must be unique'
+    )
+    .optional(),
+
+  // Grid of cards for every dashboard without a layout of its own
+  layout: DashboardLayoutSchema.optional(),
+
+  profiles: z.record(IdSchema, ProfileConfigSchema).optional(),
+
+  // Entities shown on the home card; the access token stays in HOME_ASSISTANT_TOKEN
+  homeAssistant: z.strictObject({
+    url: z.url().optional(), // e.g. http://homeassistant.local:8123
+    entities: z.array(HomeAssistantEntityConfigSchema)
+      .refine(
+        (entities) => new Set(entities.map((entity) => entity.entityId)).size === entities.length,
+        'Entity ids must be unique'
+      )
+      .default([]),
+  }).optional(),
+
+  // Dim the dashboard on a schedule; off unless set (or forced through /api/night-mode)
+  nightMode: NightModeConfigSchema.optional(),
+
+  refresh: z.strictObject({
+    // Fallback polling on the tablet while the live stream is down
+    weatherPollSeconds: SecondsSchema.optional(),
+    calendarPollSeconds: SecondsSchema.optional(),
+    // How often the server checks for changes while tablets are connected
+    streamWeatherSeconds: SecondsSchema.optional(),
+    streamCalendarSeconds: SecondsSchema.optional(),
+    homeAssistantPollSeconds: SecondsSchema.optional(),
+    streamHomeAssistantSeconds: SecondsSchema.optional(),
+  }).optional(),
+});
+
+export type DashboardConfigFile = z.infer<typeof DashboardConfigFileSchema>;
+export type CalendarConfigInput = z.infer<typeof CalendarConfigSchema>;
+export type ProfileConfigInput = z.infer<typeof ProfileConfigSchema>;
+export type NightModeConfig = z.infer<typeof NightModeConfigSchema>;
+export type HomeAssistantEntityConfig = z.infer<typeof HomeAssistantEntityConfigSchema>;
@@ -0,0 +1,43 @@
+/**
+ * Thrown when a feature is used without the settings it needs
+ * API routes report the message to the client as-is
+ */
+export class ConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigurationError';
+  }
+}
+
+/**
+ * Thrown when an upstream API or a route returns data in an unexpected shape
+ * API routes report the message so the dashboard shows what changed
+ */
+export class PayloadValidationError extends Error {
+  constructor(source: string, issues: string) {
+    super(`Unexpected response from ${source}: ${issues}`);
+    this.name = 'PayloadValidationError';
+  }
+}
+
+/**
+ * Thrown when a dashboard profile that isn't configured is requested
+ * Pages respond with 404 and API routes with a 404 { error } body
+ */
+export class UnknownProfileError extends Error {
+  constructor(profileId: string) {
+    super(`Unknown dashboard profile "${profileId}"`);
+    this.name = 'UnknownProfileError';
+  }
+}
+
+/**
+ * Thrown when a named weather location that isn't configured is requested
+ * API routes respond with a 404 { error } body
+ */
+export class UnknownLocationError extends Error {
+  constructor(locationId: string) {
+    super(`Unknown weather location "${locationId}"`);
+    this.name = 'UnknownLocationError';
+  }
+}
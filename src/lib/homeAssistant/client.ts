@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { ConfigurationError } from '@/lib/errors';
+import { parsePayload } from '@/types/schema';
+
+// Home Assistant REST API (https://developers.home-assistant.io/docs/api/rest/)
+// Authenticated with a long-lived access token (Profile > Security in Home Assistant)
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// Only the fields the dashboard uses are validated; attributes vary by domain
+const HaStateSchema = z.object({
+  entity_id: z.string(),
+  state: z.string(),
+  attributes: z.record(z.string(), z.unknown()),
+  last_changed: z.string().optional(),
+});
+
+export type HaState = z.infer<typeof HaStateSchema>;
+
+export interface HomeAssistantConnection {
+  url: string; // Base URL, e.g. http://homeassistant.local:8123
+  token: string;
+}
+
+/**
+ * Current state of an entity, or null when Home Assistant has no such entity
+ * @throws ConfigurationError when the token is rejected
+ * @throws PayloadValidationError when the response isn't a state object
+ */
+export async function fetchEntityState(connection: HomeAssistantConnection, entityId: string): Promise<HaState | null> {
+  const response = await fetch(`${connection.url.replace(/\/+$/, '')}/api/states/${entityId}`, {
+    headers: { Authorization: `Bearer ${connection.token}` },
+    cache: 'no-store',
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    throw new ConfigurationError('Home Assistant rejected HOME_ASSISTANT_TOKEN. Create a long-lived access token in your Home Assistant profile.');
+  }
+
+  if (!response.ok) {
+    throw new Error(`Home Assistant returned ${response.status} for ${entityId}`);
+  }
+
+  return parsePayload(HaStateSchema, await response.json(), `Home Assistant ${entityId}`);
+}
@@ -0,0 +1,190 @@
+import { createResponseCache } from '@/lib/cache';
+import { getDashboardConfig } from '@/lib/config';
+import { getProfile } from '@/lib/config/profiles';
+import type { HomeAssistantEntityConfig } from '@/lib/config/schema';
+import { ConfigurationError, PayloadValidationError } from '@/lib/errors';
+import type { HomeAssistantData, HomeAssistantEntity } from '@/types';
+import { fetchEntityState, type HaState, type HomeAssistantConnection } from './client';
+import { getMessages } from './messages';
+
+// State of an entity as loaded: null when Home Assistant has no such entity,
+// 'failed' when its request failed
+type EntityState = HaState | null | 'failed';
+
+// States of the configured entities, shared by every tablet: one request per
+// entity at most every few seconds however many tablets are connected
+const statesCache = createResponseCache<EntityState[]>('home-assistant', {
+  ttlMs: 5 * 1000,
+  staleWhileRevalidateMs: 60 * 1000,
+  retryAfterMs: 10 * 1000,
+});
+
+// States Home Assistant reports for entities it can't reach
+const UNAVAILABLE_STATES = ['unavailable', 'unknown'];
+
+// binary_sensor device classes that read as open / closed rather than on / off
+const OPENING_CLASSES = ['door', 'garage_door', 'opening', 'window'];
+
+function capitalize(text: string): string {
+  const words = text.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// "21.4999" -> "21.5"; other states as they are
+function formatNumber(value: string | number): string {
+  const number = Number(value);
+  return value !== '' && Number.isFinite(number) ? String(Math.round(number * 10) / 10) : String(value);
+}
+
+function attribute(state: HaState, name: string): string | number | null {
+  const value = state.attributes[name];
+  return typeof value === 'string' || typeof value === 'number' ? value : null;
+}
+
+// State as the card shows it, with a second line for thermostats
+function describe(domain: string, state: HaState): { display: string; detail: string | null } {
+  switch (domain) {
+    case 'climate': {
+      const current = attribute(state, 'current_temperature');
+      const target = attribute(state, 'temperature');
+      const action = attribute(state, 'hvac_action');
+      const status = capitalize(String(action ?? state.state));
+      return {
+        display: current !== null ? `${formatNumber(current)}°` : capitalize(state.state),
+        detail: target !== null ? `${status} · set to ${formatNumber(target)}°` : status,
+      };
+    }
+    case 'binary_sensor': {
+      const opening = OPENING_CLASSES.includes(String(attribute(state, 'device_class')));
+      return { display: state.state === 'on' ? (opening ? 'Open' : 'On') : opening ? 'Closed' : 'Off', detail: null };
+    }
+    default: {
+      const unit = attribute(state, 'unit_of_measurement');
+      return { display: unit !== null ? `${formatNumber(state.state)} ${unit}` : capitalize(state.state), detail: null };
+    }
+  }
+}
+
+function toEntity(config: HomeAssistantEntityConfig, state: EntityState): HomeAssistantEntity {
+  const domain = config.entityId.split('.')[0];
+
+  if (state === 'failed') {
+    return {
+      entityId: config.entityId,
+      label: config.label || config.entityId,
+      domain,
+      state: 'unavailable',
+      display: 'Unavailable',
+      detail: null,
+      available: false,
+      lastChanged: null,
+    };
+  }
+
+  const label = config.label || (state ? attribute(state, 'friendly_name') : null) || config.entityId;
+
+  if (!state || UNAVAILABLE_STATES.includes(state.state)) {
+    return {
+      entityId: config.entityId,
+      label: String(label),
+      domain,
+      state: state?.state ?? 'not_found',
+      display: state ? 'Unavailable' : 'Not found',
+      detail: null,
+      available: false,
+      lastChanged: state?.last_changed ?? null,
+    };
+  }
+
+  return {
+    entityId: config.entityId,
+    label: String(label),
+    domain,
+    state: state.state,
+    ...describe(domain, state),
+    available: true,
+    lastChanged: state.last_changed ?? null,
+  };
+}
+
+function getConnection(): HomeAssistantConnection {
+  const { url } = getDashboardConfig().homeAssistant;
+  const token = process.env.HOME_ASSISTANT_TOKEN?.trim();
+
+  if (!url) {
+    throw new ConfigurationError('Missing Home Assistant URL. Set homeAssistant.url in dashboard.config.json or HOME_ASSISTANT_URL.');
+  }
+  if (!token) {
+    throw new ConfigurationError('Missing Home Assistant access token. Set HOME_ASSISTANT_TOKEN.');
+  }
+  return { url, token };
+}
+
+// One entity failing (a timeout, an unexpected response) only marks that entity
+// unavailable. A rejected token, or every entity failing, fails the load so the
+// cache keeps serving the last good states.
+async function loadStates(connection: HomeAssistantConnection, ids: string[]): Promise<EntityState[]> {
+  const results = await Promise.allSettled(ids.map((entityId) => fetchEntityState(connection, entityId)));
+
+  const rejected = results.filter((result) => result.status === 'rejected');
+  const configurationError = rejected.find((result) => result.reason instanceof ConfigurationError);
+  if (configurationError || rejected.length === results.length) {
+    throw (configurationError ?? rejected[0]).reason;
+  }
+
+  return results.map((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Home Assistant state of ${ids[index]} failed:`, result.reason);
+      return 'failed';
+    }
+    return result.value;
+  });
+}
+
+/**
+ * States of the profile's Home Assistant entities (every configured entity by
+ * default) and the messages pushed to its dashboard. Messages don't depend on
+ * Home Assistant being reachable: when the states can't be loaded (no URL or
+ * token, or it is down with nothing cached) the entities show as unavailable
+ * and `error` says why.
+ */
+export async function getHomeAssistant(profileId?: string | null): Promise<HomeAssistantData> {
+  const { entities } = getProfile(profileId);
+  const messages = getMessages(profileId || null);
+
+  if (entities.length === 0) {
+    return { entities: [], messages, error: null };
+  }
+
+  try {
+    const connection = getConnection();
+    const ids = entities.map((entity) => entity.entityId);
+    const { value: states } = await statesCache.get(`${connection.url}:${ids.join(',')}`, () => loadStates(connection, ids));
+
+    return {
+      entities: entities.map((entity, index) => toEntity(entity, states[index])),
+      messages,
+      error: null,
+    };
+  } catch (error) {
+    if (!(error instanceof ConfigurationError)) {
+      console.error('Home Assistant states error:', error);
+    }
+    return {
+      entities: entities.map((entity) => toEntity(entity, 'failed')),
+      messages,
+      error: error instanceof ConfigurationError || error instanceof PayloadValidationError
+        ? error.message
+        : 'Failed to fetch Home Assistant states',
+    };
+  }
+}
+
+/**
+ * Ask Home Assistant for the states again on the next load, e.g. when it
+ * reports a change through the webhook; the last good states stay as the
+ * fallback if it can't be reached
+ */
+export function invalidateHomeAssistantStates() {
+  statesCache.expire();
+}
@@ -0,0 +1,61 @@
+import { randomUUID } from 'crypto';
+import type { DashboardMessage } from '@/types';
+
+// Messages pushed by Home Assistant through the webhook, held in memory until
+// they expire or are cleared. A message is for one profile's dashboard or,
+// without a profile, for every dashboard.
+
+// Oldest messages are dropped beyond this
+const MAX_MESSAGES = 5;
+
+interface StoredMessage {
+  message: DashboardMessage;
+  profileId: string | null; // null: every dashboard
+}
+
+let messages: StoredMessage[] = [];
+
+export interface MessageInput {
+  text: string;
+  title?: string;
+  level: DashboardMessage['level'];
+  minutes?: number; // Shown until cleared when omitted
+}
+
+function isExpired({ message }: StoredMessage, now: Date): boolean {
+  return message.expires !== null && new Date(message.expires) <= now;
+}
+
+/**
+ * Store a message for a profile's dashboard, or every dashboard when profileId is null
+ */
+export function addMessage(input: MessageInput, profileId: string | null, now: Date = new Date()): DashboardMessage {
+  const message: DashboardMessage = {
+    id: randomUUID(),
+    title: input.title || null,
+    text: input.text,
+    level: input.level,
+    created: now.toISOString(),
+    expires: input.minutes ? new Date(now.getTime() + input.minutes * 60 * 1000).toISOString() : null,
+  };
+
+  messages = [...messages.filter((stored) => !isExpired(stored, now)), { message, profileId }].slice(-MAX_MESSAGES);
+  return message;
+}
+
+/**
+ * Remove a profile's messages, or every message when profileId is null
+ */
+export function clearMessages(profileId: string | null) {
+  messages = profileId ? messages.filter((stored) => stored.profileId !== profileId) : [];
+}
+
+/**
+ * Unexpired messages a dashboard shows, oldest first
+ * @param profileId - The dashboard's profile; null for the default dashboard
+ */
+export function getMessages(profileId: string | null, now: Date = new Date()): DashboardMessage[] {
+  return messages
+    .filter((stored) => !isExpired(stored, now) && (stored.profileId === null || stored.profileId === profileId))
+    .map((stored) => stored.message);
+}
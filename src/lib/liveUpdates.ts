@@ -0,0 +1,212 @@
+import { getWeather } from '@/lib/weather';
+import { getCalendar } from '@/lib/calendar';
+import { getNightMode } from '@/lib/nightMode';
+import { getHomeAssistant } from '@/lib/homeAssistant';
+import { getDashboardConfig, type DashboardConfig } from '@/lib/config';
+import { layoutUses } from '@/lib/config/layout';
+import { getProfile } from '@/lib/config/profiles';
+import { ConfigurationError, PayloadValidationError } from '@/lib/errors';
+
+// Server-side hub behind /api/stream. While at least one tablet is connected,
+// each channel is reloaded on its own interval and pushed to every subscriber
+// only when the payload actually changed. Tablets on the same profile share
+// one set of loads; each profile has its own hub. Weather and calendar are only
+// loaded while the profile's layout has a card showing them.
+
+export type LiveChannel = 'weather' | 'calendar' | 'nightMode' | 'homeAssistant';
+
+export type LiveListener = (channel: LiveChannel, payload: unknown) => void;
+
+interface ChannelState {
+  load: () => Promise<unknown>;
+  // Interval in the dashboard config's refresh section (null: not configurable),
+  // and the default used when the config can't be read (the load then reports the error)
+  intervalKey: keyof DashboardConfig['refresh'] | null;
+  defaultIntervalMs: number;
+  lastJson: string | null;
+  lastPayload: unknown;
+  hasData: boolean;
+  timer: ReturnType<typeof setInterval> | null;
+  loading: boolean;
+  // A reload was asked for during a load; it runs once that load finishes
+  queued: boolean;
+}
+
+interface Hub {
+  profileId: string | null;
+  listeners: Set<LiveListener>;
+  channels: Record<LiveChannel, ChannelState>;
+}
+
+// Keyed by profile id; '' is the default dashboard
+const hubs = new Map<string, Hub>();
+
+function createChannel(
+  load: () => Promise<unknown>,
+  intervalKey: ChannelState['intervalKey'],
+  defaultIntervalMs: number
+): ChannelState {
+  return {
+    load,
+    intervalKey,
+    defaultIntervalMs,
+    lastJson: null,
+    lastPayload: null,
+    hasData: false,
+    timer: null,
+    loading: false,
+    queued: false,
+  };
+}
+
+function createHub(profileId: string | null): Hub {
+  return {
+    profileId,
+    listeners: new Set(),
+    channels: {
+      weather: createChannel(async () => (await getWeather(profileId)).payload, 'streamWeatherMs', 60 * 1000),
+      calendar: createChannel(() => getCalendar(profileId), 'streamCalendarMs', 10 * 1000),
+      // Cheap to evaluate; often enough that scheduled changes land within half a minute
+      nightMode: createChannel(() => getNightMode(profileId), null, 30 * 1000),
+      homeAssistant: createChannel(() => getHomeAssistant(profileId), 'streamHomeAssistantMs', 10 * 1000),
+    },
+  };
+}
+
+function publish(hub: Hub, channel: LiveChannel, payload: unknown) {
+  const state = hub.channels[channel];
+  const json = JSON.stringify(payload);
+
+  if (json !== state.lastJson) {
+    state.lastJson = json;
+    state.lastPayload = payload;
+    hub.listeners.forEach((listener) => listener(channel, payload));
+  }
+}
+
+// Checked on every load, so layout changes in the config file apply without reconnecting.
+// Home Assistant always loads for its pushed messages; when the profile can't be
+// read, the load reports why.
+function isChannelShown(hub: Hub, channel: LiveChannel): boolean {
+  if (channel !== 'weather' && channel !== 'calendar') return true;
+  try {
+    return layoutUses(getProfile(hub.profileId).layout, channel);
+  } catch {
+    return true;
+  }
+}
+
+async function pollChannel(hub: Hub, channel: LiveChannel, queue = false) {
+  const state = hub.channels[channel];
+  if (!isChannelShown(hub, channel)) return;
+  if (state.loading) {
+    state.queued ||= queue;
+    return;
+  }
+
+  state.loading = true;
+  try {
+    publish(hub, channel, await state.load());
+    state.hasData = true;
+  } catch (error) {
+    console.error(`Live update for ${channel} failed:`, error);
+
+    // Keep the last good payload; only report the error if there has never been one,
+    // using the same { error } shape as the REST routes
+    if (!state.hasData) {
+      const message = error instanceof ConfigurationError || error instanceof PayloadValidationError
+        ? error.message
+        : `Failed to fetch ${channel} data`;
+      publish(hub, channel, { error: message });
+    }
+  } finally {
+    state.loading = false;
+  }
+
+  if (state.queued) {
+    state.queued = false;
+    pollChannel(hub, channel);
+  }
+}
+
+function getIntervalMs(state: ChannelState): number {
+  if (!state.intervalKey) return state.defaultIntervalMs;
+  try {
+    return getDashboardConfig().refresh[state.intervalKey];
+  } catch {
+    return state.defaultIntervalMs;
+  }
+}
+
+function start(hub: Hub) {
+  (Object.keys(hub.channels) as LiveChannel[]).forEach((channel) => {
+    const state = hub.channels[channel];
+    if (!state.timer) {
+      state.timer = setInterval(() => pollChannel(hub, channel), getIntervalMs(state));
+      pollChannel(hub, channel);
+    }
+  });
+}
+
+function stop(hub: Hub) {
+  Object.values(hub.channels).forEach((state) => {
+    if (state.timer) {
+      clearInterval(state.timer);
+      state.timer = null;
+    }
+  });
+}
+
+/**
+ * Subscribe to payload changes of a profile's dashboard. The listener
+ * immediately receives the latest known payload of each channel, then every
+ * change after that.
+ * @param profileId - Profile whose weather location and calendars are loaded; the default dashboard when null
+ * @returns Unsubscribe function
+ */
+export function subscribe(listener: LiveListener, profileId: string | null = null): () => void {
+  const key = profileId || '';
+  const hub = hubs.get(key) || createHub(profileId);
+  hubs.set(key, hub);
+
+  hub.listeners.add(listener);
+
+  (Object.keys(hub.channels) as LiveChannel[]).forEach((channel) => {
+    if (hub.channels[channel].lastJson !== null) {
+      listener(channel, hub.channels[channel].lastPayload);
+    }
+  });
+
+  if (hub.listeners.size === 1) {
+    start(hub);
+  }
+
+  return () => {
+    hub.listeners.delete(listener);
+    if (hub.listeners.size === 0) {
+      stop(hub);
+    }
+  };
+}
+
+/**
+ * Reload a channel now for a profile's connected tablets, e.g. after a change
+ * made through the API; does nothing while none are connected
+ */
+export function refreshChannel(channel: LiveChannel, profileId: string | null = null) {
+  const hub = hubs.get(profileId || '');
+  if (hub && hub.listeners.size > 0) {
+    pollChannel(hub, channel, true);
+  }
+}
+
+/**
+ * Reload a channel now on every profile's connected tablets
+ */
+export function refreshChannelEverywhere(channel: LiveChannel) {
+  hubs.forEach((hub) => {
+    if (hub.listeners.size > 0) {
+      pollChannel(hub, channel, true);
+    }
+  });
+}
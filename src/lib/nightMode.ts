@@ -0,0 +1,157 @@
+import { addDays, addMinutes, startOfDay } from 'date-fns';
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+import { getProfile } from '@/lib/config/profiles';
+import type { NightModeConfig } from '@/lib/config/schema';
+import { getDisplaySettings } from '@/lib/settings';
+import { getWeather } from '@/lib/weather';
+import type { NightMode, NightModeState, WeatherData } from '@/types';
+
+// Night mode of each profile: its configured schedule, unless an override set
+// through /api/night-mode (e.g. by Home Assistant) is in effect.
+
+interface Override {
+  mode: NightMode;
+  until: Date | null; // null: until cleared
+}
+
+// Keyed by profile id; '' is the default dashboard
+const overrides = new Map<string, Override>();
+
+// Used for sunrise/sunset schedules while the weather can't be loaded
+const FALLBACK_SUN = { sunrise: '07:00', sunset: '19:00' };
+
+type SunTimes = WeatherData['sun'];
+
+interface Interval {
+  start: Date;
+  end: Date;
+}
+
+async function loadSunTimes(profileId: string | null): Promise<SunTimes | null> {
+  try {
+    return (await getWeather(profileId)).payload.sun;
+  } catch (error) {
+    console.warn(
+      `Night mode is using ${FALLBACK_SUN.sunrise} and ${FALLBACK_SUN.sunset} for sunrise and sunset:`,
+      error instanceof Error ? error.message : error
+    );
+    return null;
+  }
+}
+
+// Wall-clock time on a day in the dashboard zone
+function atTime(day: Date, time: string, timeZone: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const zoned = new Date(day);
+  zoned.setHours(hours, minutes, 0, 0);
+  return fromZonedTime(zoned, timeZone);
+}
+
+/**
+ * Instant of a schedule time ("22:30", "sunset+30") on a day in the dashboard zone
+ * Sun times beyond today and tomorrow reuse today's, shifted by whole days
+ */
+function resolveTime(spec: string, day: Date, dayOffset: number, sun: SunTimes | null, timeZone: string): Date {
+  const match = /^(sunrise|sunset)([+-]\d+)?$/.exec(spec);
+  if (!match) {
+    return atTime(day, spec, timeZone);
+  }
+
+  const event = match[1] as 'sunrise' | 'sunset';
+  const offsetMinutes = Number(match[2] || 0);
+  if (!sun) {
+    return addMinutes(atTime(day, FALLBACK_SUN[event], timeZone), offsetMinutes);
+  }
+
+  const time = dayOffset === 1 ? new Date(sun.tomorrow[event]) : addDays(new Date(sun.today[event]), dayOffset);
+  return addMinutes(time, offsetMinutes);
+}
+
+// Night periods starting yesterday, today and tomorrow; each ends at the first
+// end time after its start, so "22:00" to "06:00" spans midnight
+function getNightIntervals(schedule: NightModeConfig, now: Date, sun: SunTimes | null, timeZone: string): Interval[] {
+  const today = startOfDay(toZonedTime(now, timeZone));
+
+  return [-1, 0, 1].map((dayOffset) => {
+    const day = addDays(today, dayOffset);
+    const start = resolveTime(schedule.start, day, dayOffset, sun, timeZone);
+    let end = resolveTime(schedule.end, day, dayOffset, sun, timeZone);
+    if (end <= start) {
+      end = resolveTime(schedule.end, addDays(day, 1), dayOffset + 1, sun, timeZone);
+    }
+    return { start, end };
+  });
+}
+
+function usesSunTimes(schedule: NightModeConfig): boolean {
+  return [schedule.start, schedule.end].some((time) => time.startsWith('sun'));
+}
+
+// What the schedule says at `now`, and when that next changes
+async function getScheduledState(profileId: string | null, schedule: NightModeConfig, now: Date): Promise<NightModeState> {
+  const sun = usesSunTimes(schedule) ? await loadSunTimes(profileId) : null;
+  const intervals = getNightIntervals(schedule, now, sun, getDisplaySettings().timeZone);
+
+  const current = intervals.find((interval) => interval.start <= now && now < interval.end);
+  if (current) {
+    return { mode: schedule.mode, source: 'schedule', until: current.end.toISOString() };
+  }
+
+  const next = intervals.find((interval) => interval.start > now);
+  return { mode: 'off', source: 'schedule', until: next?.start.toISOString() ?? null };
+}
+
+/**
+ * Night mode a profile's dashboard should show now
+ * @param profileId - Profile whose schedule applies; the default dashboard when null
+ * @throws UnknownProfileError when no profile has this id
+ * @throws ConfigurationError when the config file is invalid
+ */
+export async function getNightMode(profileId: string | null, now: Date = new Date()): Promise<NightModeState> {
+  const { nightMode: schedule } = getProfile(profileId);
+  const key = profileId || '';
+
+  const override = overrides.get(key);
+  if (override && override.until && override.until <= now) {
+    overrides.delete(key);
+  } else if (override) {
+    return { mode: override.mode, source: 'override', until: override.until?.toISOString() ?? null };
+  }
+
+  if (!schedule) {
+    return { mode: 'off', source: 'schedule', until: null };
+  }
+
+  return getScheduledState(profileId, schedule, now);
+}
+
+/**
+ * Force a profile's night mode, or hand it back to the schedule with 'auto'
+ * @param minutes - How long the override lasts; by default until the schedule
+ *   next changes (indefinitely without a schedule)
+ * @throws UnknownProfileError when no profile has this id
+ * @throws ConfigurationError when the config file is invalid
+ */
+export async function setNightMode(
+  profileId: string | null,
+  mode: NightMode | 'auto',
+  minutes?: number,
+  now: Date = new Date()
+): Promise<NightModeState> {
+  const { nightMode: schedule } = getProfile(profileId);
+  const key = profileId || '';
+  overrides.delete(key);
+
+  if (mode !== 'auto') {
+    let until: Date | null = null;
+    if (minutes) {
+      until = addMinutes(now, minutes);
+    } else if (schedule) {
+      const scheduled = await getScheduledState(profileId, schedule, now);
+      until = scheduled.until ? new Date(scheduled.until) : null;
+    }
+    overrides.set(key, { mode, until });
+  }
+
+  return getNightMode(profileId, now);
+}
@@ -0,0 +1,325 @@
+import { addDays, startOfDay } from 'date-fns';
+import type { CSSProperties } from 'react';
+import type { CalendarData, CalendarEvent, DashboardCard, DisplaySettings, HomeAssistantData, WeatherData } from '@/types';
+import { formatDayLength, formatDayOfMonth, formatHour, formatTime, formatWeekday, toDashboardTime } from '@/utils/dateTime';
+import { formatMeasurement } from '@/utils/units';
+import { getDayHighlights, isEventOnDay, sortByCalendarPriority } from '@/utils/calendarEvents';
+import { describeNowcast } from '@/utils/nowcast';
+
+// The dashboard as a single image for devices that can only show one (Kindles,
+// e-paper frames). Rendered by next/og, which understands a subset of CSS:
+// every element with several children needs display: flex, and there are no
+// classes or CSS variables, so everything is styled inline in black and grays.
+
+export interface SnapshotChannel<T> {
+  data: T | null;
+  error: string | null;
+}
+
+interface SnapshotViewProps {
+  cards: Set<DashboardCard>;
+  // null when the profile shows no card reading the channel
+  weather: SnapshotChannel<WeatherData> | null;
+  calendar: SnapshotChannel<CalendarData> | null;
+  homeAssistant: SnapshotChannel<HomeAssistantData> | null;
+  settings: DisplaySettings;
+  now: Date;
+  width: number;
+  height: number;
+  // Data URL of a weather icon
+  icon: (iconCode: string, weatherId?: number) => string;
+}
+
+const AQI_SCALE_NAMES: Record<NonNullable<WeatherData['airQuality']>['index']['scale'], string> = {
+  us: 'US AQI',
+  aqhi: 'AQHI',
+};
+
+const GRAY = '#555555';
+const LIGHT_GRAY = '#999999';
+
+// Times are formatted with narrow no-break spaces ("9:05\u202fAM"), which the
+// bundled font lacks; next/og would otherwise try to download a font for them
+function plain(text: string): string {
+  return text.replace(/[\u00a0\u202f]/g, ' ');
+}
+
+function Heading({ children, unit }: { children: string; unit: number }) {
+  return (
+    <div style={{ display: 'flex', flexShrink: 0, fontSize: unit * 1.1, color: GRAY, textTransform: 'uppercase', letterSpacing: 1, marginBottom: unit * 0.5 }}>
+      {children}
+    </div>
+  );
+}
+
+function Unavailable({ what, error, unit }: { what: string; error: string | null; unit: number }) {
+  return (
+    <div style={{ display: 'flex', fontSize: unit * 1.2, color: GRAY }}>
+      {what} unavailable{error ? `: ${error}` : ''}
+    </div>
+  );
+}
+
+function EventRow({ event, label, calendarLabel, unit }: { event: CalendarEvent; label: string; calendarLabel: string | null; unit: number }) {
+  return (
+    <div style={{ display: 'flex', flexShrink: 0, alignItems: 'baseline', fontSize: unit * 1.4, paddingBottom: unit * 0.4, marginBottom: unit * 0.4, borderBottom: `1px solid ${LIGHT_GRAY}` }}>
+      <div style={{ display: 'flex', width: unit * 7, flexShrink: 0, color: GRAY, fontSize: unit * 1.2 }}>{label}</div>
+      <div style={{ display: 'flex', flex: 1, overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' }}>{event.title}</div>
+      {calendarLabel && (
+        <div style={{ display: 'flex', marginLeft: unit * 0.5, color: GRAY, fontSize: unit }}>{calendarLabel}</div>
+      )}
+    </div>
+  );
+}
+
+function WeatherSection({ cards, weather, settings, now, unit, icon }: Pick<SnapshotViewProps, 'cards' | 'settings' | 'now' | 'icon'> & {
+  weather: SnapshotChannel<WeatherData>;
+  unit: number;
+}) {
+  const data = weather.data;
+  if (!data) {
+    return <Unavailable what="Weather" error={weather.error} unit={unit} />;
+  }
+
+  const topAlert = data.alerts[0];
+  const nowcast = data.nowcast ? describeNowcast(data.nowcast, now) : null;
+  const row: CSSProperties = { display: 'flex', justifyContent: 'space-between' };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: unit * 1.5 }}>
+      {cards.has('alerts') && topAlert && (
+        <div style={{ display: 'flex', flexDirection: 'column', border: '3px solid #000000', padding: unit * 0.75 }}>
+          <div style={{ display: 'flex', fontSize: unit * 1.4 }}>{topAlert.event}</div>
+          <div style={{ display: 'flex', fontSize: unit * 1.1, color: GRAY }}>{topAlert.headline}</div>
+        </div>
+      )}
+
+      {(cards.has('current') || cards.has('details')) && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: unit * 1.5 }}>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={icon(data.current.icon, data.current.weatherId)} width={unit * 8} height={unit * 8} alt="" />
+          <div style={{ display: 'flex', flexDirection: 'column' }}>
+            <div style={{ display: 'flex', fontSize: unit * 6, lineHeight: 1 }}>{data.current.temp}°</div>
+            <div style={{ display: 'flex', fontSize: unit * 1.4, color: GRAY, textTransform: 'capitalize' }}>
+              {data.current.description}
+            </div>
+            {cards.has('current') && nowcast && (
+              <div style={{ display: 'flex', fontSize: unit * 1.1, color: GRAY }}>{nowcast}</div>
+            )}
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column', marginLeft: 'auto', fontSize: unit * 1.2, color: GRAY, alignItems: 'flex-end' }}>
+            <div style={{ display: 'flex' }}>H {data.current.high}° · L {data.current.low}°</div>
+            <div style={{ display: 'flex' }}>Feels like {data.current.feelsLike}°</div>
+            {cards.has('details') && (
+              <div style={{ display: 'flex' }}>{data.current.humidity}% · {formatMeasurement('speed', data.current.windSpeed, data.units)}</div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {cards.has('hourly') && (
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <Heading unit={unit}>Next Hours</Heading>
+          <div style={row}>
+            {data.hourly.slice(1, 7).map((hour, index) => (
+              <div key={index} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', fontSize: unit * 1.1 }}>
+                <div style={{ display: 'flex', color: GRAY }}>{plain(formatHour(hour.time, settings))}</div>
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={icon(hour.icon, hour.weatherId)} width={unit * 2.5} height={unit * 2.5} alt="" />
+                <div style={{ display: 'flex', fontSize: unit * 1.4 }}>{hour.temp}°</div>
+                <div style={{ display: 'flex', color: GRAY }}>{hour.pop}%</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {cards.has('forecast') && (
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <Heading unit={unit}>7-Day Forecast</Heading>
+          <div style={row}>
+            {data.forecast.map((day, index) => (
+              <div key={index} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', fontSize: unit * 1.1 }}>
+                <div style={{ display: 'flex', color: GRAY }}>{formatWeekday(day.date, settings, 'short')}</div>
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={icon(day.icon, day.weatherId)} width={unit * 2.5} height={unit * 2.5} alt="" />
+                <div style={{ display: 'flex', fontSize: unit * 1.4 }}>{day.temp}°</div>
+                <div style={{ display: 'flex', color: GRAY }}>{day.pop}%</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface GlanceItem {
+  key: string;
+  label: string;
+  value: string;
+}
+
+// The smaller cards as label and value pairs along the bottom, wrapping like a status bar
+function getGlanceItems({ cards, weather, homeAssistant, settings }: Pick<SnapshotViewProps, 'cards' | 'weather' | 'homeAssistant' | 'settings'>): GlanceItem[] {
+  const items: GlanceItem[] = [];
+  const data = weather?.data;
+
+  if (data) {
+    if (cards.has('air')) {
+      const index = data.airQuality?.index;
+      items.push({
+        key: 'air',
+        label: index ? AQI_SCALE_NAMES[index.scale] : 'Air quality',
+        value: index ? `${index.display} ${index.category}` : 'Unavailable',
+      });
+    }
+    if (cards.has('daylight')) {
+      const { sunrise, sunset, dayLength } = data.sun.today;
+      items.push({
+        key: 'daylight',
+        label: 'Daylight',
+        value: plain(`${formatTime(sunrise, settings)}–${formatTime(sunset, settings)} (${formatDayLength(dayLength)})`),
+      });
+    }
+    if (cards.has('moon')) {
+      items.push({ key: 'moon', label: 'Moon', value: `${data.moon.name} ${data.moon.illumination}%` });
+    }
+    if (cards.has('locations')) {
+      data.locations.forEach((location) => {
+        items.push({
+          key: `location-${location.id}`,
+          label: location.name,
+          value: location.current ? `${location.current.temp}°` : 'Unavailable',
+        });
+      });
+    }
+  }
+
+  if (homeAssistant) {
+    if (homeAssistant.data) {
+      homeAssistant.data.entities.forEach((entity) => {
+        items.push({ key: entity.entityId, label: entity.label, value: entity.display });
+      });
+    } else {
+      items.push({ key: 'home', label: 'Home', value: homeAssistant.error ? `Unavailable: ${homeAssistant.error}` : 'Unavailable' });
+    }
+  }
+
+  return items;
+}
+
+function CalendarSection({ cards, calendar, settings, now, unit }: Pick<SnapshotViewProps, 'cards' | 'settings' | 'now'> & {
+  calendar: SnapshotChannel<CalendarData>;
+  unit: number;
+}) {
+  const data = calendar.data;
+  if (!data) {
+    return <Unavailable what="Calendar" error={calendar.error} unit={unit} />;
+  }
+
+  const today = startOfDay(toDashboardTime(now, settings));
+  const calendarLabel = (event: CalendarEvent) =>
+    data.calendars.length > 1 ? data.calendars.find((info) => info.id === event.calendarId)?.label ?? null : null;
+
+  // The rest of today: all-day events by priority, then timed events that haven't ended
+  const todayEvents = data.events.filter((event) => isEventOnDay(event, today, settings));
+  const remaining = [
+    ...sortByCalendarPriority(todayEvents.filter((event) => event.allDay), data.calendars),
+    ...todayEvents
+      .filter((event) => !event.allDay && new Date(event.end).getTime() > now.getTime())
+      .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()),
+  ];
+  const tomorrow = getDayHighlights(data.events, addDays(today, 1), settings);
+  const eventLabel = (event: CalendarEvent) => (event.allDay ? 'All day' : plain(formatTime(event.start, settings)));
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: unit * 1.5, overflow: 'hidden' }}>
+      {cards.has('calendar') && (
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <Heading unit={unit}>Today</Heading>
+          {remaining.length === 0 ? (
+            <div style={{ display: 'flex', fontSize: unit * 1.2, color: GRAY }}>Nothing else today</div>
+          ) : (
+            remaining.map((event) => (
+              <EventRow key={event.id} event={event} label={eventLabel(event)} calendarLabel={calendarLabel(event)} unit={unit} />
+            ))
+          )}
+        </div>
+      )}
+
+      {cards.has('tomorrow') && (
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <Heading unit={unit}>Tomorrow</Heading>
+          {tomorrow.length === 0 ? (
+            <div style={{ display: 'flex', fontSize: unit * 1.2, color: GRAY }}>No events scheduled for tomorrow</div>
+          ) : (
+            tomorrow.map((event) => (
+              <EventRow key={event.id} event={event} label={eventLabel(event)} calendarLabel={calendarLabel(event)} unit={unit} />
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * One page showing the profile's cards: the time and date across the top, then
+ * weather and calendar side by side in landscape or stacked in portrait, and
+ * the smaller cards (air quality, daylight, moon, locations, Home Assistant)
+ * along the bottom
+ */
+export default function SnapshotView(props: SnapshotViewProps) {
+  const { cards, weather, calendar, settings, now, width, height } = props;
+  // Type scale follows the short edge so a 600px Kindle and an 800x480 panel both fit
+  const unit = Math.min(width, height) / 40;
+  // Weather beside the calendar in landscape; in portrait the calendar takes what weather leaves
+  const landscape = width > height;
+  const glance = getGlanceItems(props);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', width: '100%', height: '100%', background: '#ffffff', color: '#000000', padding: unit * 1.5 }}>
+      {(cards.has('clock') || cards.has('date')) && (
+        <div style={{ display: 'flex', alignItems: 'flex-end', justifyContent: 'space-between', borderBottom: '3px solid #000000', paddingBottom: unit, marginBottom: unit * 1.5 }}>
+          {cards.has('clock') && (
+            <div style={{ display: 'flex', fontSize: unit * 5, lineHeight: 1 }}>{plain(formatTime(now, settings))}</div>
+          )}
+          {cards.has('date') && (
+            <div style={{ display: 'flex', fontSize: unit * 2 }}>
+              {formatWeekday(now, settings)} {formatDayOfMonth(now, settings)}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', flex: 1, flexDirection: landscape ? 'row' : 'column', gap: unit * 2, overflow: 'hidden' }}>
+        {weather && (
+          <div style={{ display: 'flex', flexDirection: 'column', flex: landscape ? 1 : 'none' }}>
+            <WeatherSection {...props} weather={weather} unit={unit} />
+          </div>
+        )}
+        {calendar && (
+          <div style={{ display: 'flex', flexDirection: 'column', flex: 1, minHeight: 0, overflow: 'hidden' }}>
+            <CalendarSection {...props} calendar={calendar} unit={unit} />
+          </div>
+        )}
+      </div>
+
+      {glance.length > 0 && (
+        <div style={{ display: 'flex', flexShrink: 0, flexWrap: 'wrap', columnGap: unit * 1.5, rowGap: unit * 0.5, fontSize: unit * 1.2, borderTop: '3px solid #000000', paddingTop: unit, marginTop: unit * 1.5 }}>
+          {glance.map((item) => (
+            <div key={item.key} style={{ display: 'flex', gap: unit * 0.5 }}>
+              <div style={{ display: 'flex', color: GRAY }}>{item.label}</div>
+              <div style={{ display: 'flex' }}>{item.value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'flex-end', fontSize: unit * 0.9, color: LIGHT_GRAY, marginTop: unit * 0.5 }}>
+        {weather?.data?.stale ? 'Weather offline · ' : ''}Updated {plain(formatTime(now, settings))}
+      </div>
+    </div>
+  );
+}
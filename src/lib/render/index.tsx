@@ -0,0 +1,99 @@
+import fs from 'fs';
+import path from 'path';
+import { ImageResponse } from 'next/og';
+import { getWeather } from '@/lib/weather';
+import { getCalendar } from '@/lib/calendar';
+import { getHomeAssistant } from '@/lib/homeAssistant';
+import { layoutUses } from '@/lib/config/layout';
+import { getProfile } from '@/lib/config/profiles';
+import { getDisplaySettings } from '@/lib/settings';
+import { ConfigurationError, PayloadValidationError, UnknownProfileError } from '@/lib/errors';
+import { getWeatherIconPath } from '@/utils/weatherIcons';
+import SnapshotView, { type SnapshotChannel } from './SnapshotView';
+import { decodePng, encodeGrayPng, type GrayBitDepth } from './png';
+import { quantize, rotate, toGrayscale, type Rotation } from './raster';
+
+// Server-side snapshots of a profile's dashboard for devices that can only
+// display an image: laid out with next/og (no browser involved), then reduced
+// to the panel's gray levels, optionally dithered, and rotated to its mounting.
+
+export type SnapshotLevels = 2 | 4 | 16 | 256;
+
+export interface SnapshotOptions {
+  profileId: string | null;
+  width: number; // As the image is viewed, before rotation
+  height: number;
+  rotation: Rotation; // Clockwise
+  levels: SnapshotLevels;
+  dither: boolean;
+}
+
+// Smallest PNG bit depth holding each number of levels
+const BIT_DEPTHS: Record<SnapshotLevels, GrayBitDepth> = { 2: 1, 4: 2, 16: 4, 256: 8 };
+
+// Icons are inlined as data URLs; the renderer can't fetch them from the app
+const iconCache = new Map<string, string>();
+
+function getIconDataUrl(iconCode: string, weatherId?: number): string {
+  const iconPath = getWeatherIconPath(iconCode, weatherId);
+  let dataUrl = iconCache.get(iconPath);
+  if (!dataUrl) {
+    const svg = fs.readFileSync(path.join(process.cwd(), 'public', iconPath));
+    dataUrl = `data:image/svg+xml;base64,${svg.toString('base64')}`;
+    iconCache.set(iconPath, dataUrl);
+  }
+  return dataUrl;
+}
+
+// A channel's data, or the message its section shows instead (as the dashboard cards do)
+async function loadChannel<T>(name: string, load: () => Promise<T>): Promise<SnapshotChannel<T>> {
+  try {
+    return { data: await load(), error: null };
+  } catch (error) {
+    if (error instanceof UnknownProfileError) {
+      throw error;
+    }
+    if (error instanceof ConfigurationError || error instanceof PayloadValidationError) {
+      return { data: null, error: error.message };
+    }
+    console.error(`Snapshot ${name} error:`, error);
+    return { data: null, error: `Failed to fetch ${name} data` };
+  }
+}
+
+/**
+ * Render the profile's cards into a grayscale PNG
+ * @throws UnknownProfileError when no profile has this id
+ * @throws ConfigurationError when the config file is invalid
+ */
+export async function renderSnapshot(options: SnapshotOptions): Promise<Buffer> {
+  const { profileId, width, height } = options;
+  const { layout } = getProfile(profileId);
+  const cards = new Set(layout.widgets.map((placement) => placement.widget));
+
+  // Data comes from the same cached sources as /api/weather, /api/calendar and /api/home-assistant
+  const [weather, calendar, homeAssistant] = await Promise.all([
+    layoutUses(layout, 'weather') ? loadChannel('weather', async () => (await getWeather(profileId)).payload) : null,
+    layoutUses(layout, 'calendar') ? loadChannel('calendar', () => getCalendar(profileId)) : null,
+    layoutUses(layout, 'homeAssistant') ? loadChannel('Home Assistant', () => getHomeAssistant(profileId)) : null,
+  ]);
+
+  const image = new ImageResponse(
+    <SnapshotView
+      cards={cards}
+      weather={weather}
+      calendar={calendar}
+      homeAssistant={homeAssistant}
+      settings={getDisplaySettings()}
+      now={new Date()}
+      width={width}
+      height={height}
+      icon={getIconDataUrl}
+    />,
+    { width, height }
+  );
+
+  const rendered = decodePng(new Uint8Array(await image.arrayBuffer()));
+  const gray = quantize(toGrayscale(rendered), options.levels, options.dither);
+  return encodeGrayPng(rotate(gray, options.rotation), BIT_DEPTHS[options.levels]);
+}
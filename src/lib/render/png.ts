@@ -0,0 +1,171 @@
+import zlib from 'zlib';
+
+// Just enough PNG to post-process snapshots: reads the 8-bit images next/og
+// produces and writes grayscale images at 1, 2, 4 or 8 bits per pixel.
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Samples per pixel for each 8-bit colour type: gray, RGB, gray + alpha, RGBA
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array; // 4 bytes per pixel
+}
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8Array; // 1 byte per pixel, 0 (black) to 255 (white)
+}
+
+export type GrayBitDepth = 1 | 2 | 4 | 8;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array): Buffer {
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const dLeft = Math.abs(estimate - left);
+  const dUp = Math.abs(estimate - up);
+  const dUpLeft = Math.abs(estimate - upLeft);
+  if (dLeft <= dUp && dLeft <= dUpLeft) return left;
+  return dUp <= dUpLeft ? up : upLeft;
+}
+
+// Value a row filter predicts from the neighbouring bytes
+function predict(filter: number, left: number, up: number, upLeft: number): number {
+  switch (filter) {
+    case 1: return left;
+    case 2: return up;
+    case 3: return (left + up) >> 1;
+    case 4: return paeth(left, up, upLeft);
+    default: return 0;
+  }
+}
+
+/**
+ * Decode a non-interlaced 8-bit PNG into RGBA pixels
+ * @throws Error for other bit depths, palettes or interlacing
+ */
+export function decodePng(png: Uint8Array): RgbaImage {
+  const buffer = Buffer.from(png.buffer, png.byteOffset, png.byteLength);
+  if (!buffer.subarray(0, 8).equals(SIGNATURE)) {
+    throw new Error('Not a PNG image');
+  }
+
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset < buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      const bitDepth = data[8];
+      const colorType = data[9];
+      const interlace = data[12];
+      if (bitDepth !== 8 || !CHANNELS[colorType] || interlace !== 0) {
+        throw new Error(`Unsupported PNG (bit depth ${bitDepth}, colour type ${colorType}, interlace ${interlace})`);
+      }
+      channels = CHANNELS[colorType];
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  // Undo the per-row filters (PNG spec section 9)
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = new Uint8Array(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[out + x - channels] : 0;
+      const up = y > 0 ? pixels[out - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[out - stride + x - channels] : 0;
+      pixels[out + x] = (row[x] + predict(filter, left, up, upLeft)) & 0xff;
+    }
+  }
+
+  // Expand to RGBA
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const p = i * channels;
+    const color = channels >= 3;
+    data[i * 4] = pixels[p];
+    data[i * 4 + 1] = pixels[color ? p + 1 : p];
+    data[i * 4 + 2] = pixels[color ? p + 2 : p];
+    data[i * 4 + 3] = channels === 4 ? pixels[p + 3] : channels === 2 ? pixels[p + 1] : 255;
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Encode a grayscale image, packing each pixel into `bitDepth` bits
+ * (values are expected to already be on the matching levels, e.g. 0 and 255 for 1 bit)
+ */
+export function encodeGrayPng(image: GrayImage, bitDepth: GrayBitDepth): Buffer {
+  const { width, height, data } = image;
+  const maxValue = (1 << bitDepth) - 1;
+  const stride = Math.ceil((width * bitDepth) / 8);
+  const raw = Buffer.alloc((stride + 1) * height); // Filter byte 0 (none) on every row
+
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1) + 1;
+    for (let x = 0; x < width; x++) {
+      const value = Math.round((data[y * width + x] / 255) * maxValue);
+      const bit = x * bitDepth;
+      raw[row + (bit >> 3)] |= value << (8 - bitDepth - (bit & 7));
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = bitDepth;
+  header[9] = 0; // Grayscale
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
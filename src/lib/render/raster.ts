@@ -0,0 +1,82 @@
+import type { GrayImage, RgbaImage } from './png';
+
+// Pixel operations turning a rendered snapshot into what an e-paper panel shows
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+/**
+ * Luminance of each pixel (ITU-R BT.601 weights), with transparency composited onto white
+ */
+export function toGrayscale(image: RgbaImage): GrayImage {
+  const { width, height, data } = image;
+  const gray = new Uint8Array(width * height);
+
+  for (let i = 0; i < gray.length; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    const luminance = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    gray[i] = Math.round(luminance * alpha + 255 * (1 - alpha));
+  }
+
+  return { width, height, data: gray };
+}
+
+/**
+ * Reduce an image to `levels` evenly spaced grays (2 for black and white)
+ * @param dither - Spread each pixel's rounding error to its neighbours
+ *   (Floyd-Steinberg), trading hard edges for smoother shading
+ */
+export function quantize(image: GrayImage, levels: number, dither: boolean): GrayImage {
+  const { width, height } = image;
+  const step = 255 / (levels - 1);
+  const nearest = (value: number) => Math.round(Math.round(Math.min(255, Math.max(0, value)) / step) * step);
+
+  if (!dither) {
+    return { width, height, data: image.data.map(nearest) };
+  }
+
+  const values = Float32Array.from(image.data);
+  const out = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      out[i] = nearest(values[i]);
+      const error = values[i] - out[i];
+
+      if (x + 1 < width) values[i + 1] += (error * 7) / 16;
+      if (y + 1 < height) {
+        if (x > 0) values[i + width - 1] += (error * 3) / 16;
+        values[i + width] += (error * 5) / 16;
+        if (x + 1 < width) values[i + width + 1] += error / 16;
+      }
+    }
+  }
+
+  return { width, height, data: out };
+}
+
+/**
+ * Rotate clockwise by a multiple of 90 degrees
+ */
+export function rotate(image: GrayImage, rotation: Rotation): GrayImage {
+  if (rotation === 0) return image;
+
+  const { width, height, data } = image;
+  const swap = rotation !== 180;
+  const outWidth = swap ? height : width;
+  const outHeight = swap ? width : height;
+  const out = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [outX, outY] = rotation === 90
+        ? [height - 1 - y, x]
+        : rotation === 180
+          ? [width - 1 - x, height - 1 - y]
+          : [y, width - 1 - x];
+      out[outY * outWidth + outX] = data[y * width + x];
+    }
+  }
+
+  return { width: outWidth, height: outHeight, data: out };
+}
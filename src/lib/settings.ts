@@ -0,0 +1,132 @@
+import type { DisplaySettings, DisplayTheme, UnitSystem } from '@/types';
+import { getDashboardConfig, type DashboardConfig } from '@/lib/config';
+import { UNIT_SYSTEMS } from '@/utils/units';
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  timeZone: 'America/Toronto',
+  locale: 'en-US',
+  hour12: true,
+  weekStartsOn: 0,
+  theme: 'color',
+  units: UNIT_SYSTEMS.metric,
+};
+
+const DISPLAY_THEMES: DisplayTheme[] = ['color', 'eink', 'eink-grayscale'];
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+function parseWeekStart(value: string): DisplaySettings['weekStartsOn'] | null {
+  const normalized = value.trim().toLowerCase();
+  const index = /^\d$/.test(normalized) ? Number(normalized) : WEEKDAY_NAMES.indexOf(normalized);
+  return index >= 0 && index <= 6 ? (index as DisplaySettings['weekStartsOn']) : null;
+}
+
+// The config's units (already validated) or DASHBOARD_UNITS, a system name
+function getUnits(display: DashboardConfig['display'], fallback: DisplaySettings['units']): DisplaySettings['units'] {
+  const configured = display.units ?? process.env.DASHBOARD_UNITS?.trim();
+  if (!configured) {
+    return fallback;
+  }
+
+  const { system, ...overrides } = typeof configured === 'string' ? { system: configured } : configured;
+  if (system && !(system in UNIT_SYSTEMS)) {
+    console.warn(`Invalid unit system "${system}", expected ${Object.keys(UNIT_SYSTEMS).join(', ')}`);
+    return fallback;
+  }
+  return { ...(system ? UNIT_SYSTEMS[system as UnitSystem] : fallback), ...overrides };
+}
+
+// Display section of the config file; an invalid file is reported by the API
+// routes, so the page falls back to the environment here
+function getConfiguredDisplay(): DashboardConfig['display'] {
+  try {
+    return getDashboardConfig().display;
+  } catch (error) {
+    console.warn('Ignoring dashboard config for display settings:', error instanceof Error ? error.message : error);
+    return {};
+  }
+}
+
+/**
+ * Read the dashboard's display settings from the config file's `display`
+ * section, falling back to the environment
+ * - timeZone / DASHBOARD_TIMEZONE: IANA zone (default America/Toronto)
+ * - locale / DASHBOARD_LOCALE: BCP 47 locale (default en-US)
+ * - hourCycle / DASHBOARD_HOUR_CYCLE: 12 or 24 (default 12)
+ * - weekStart / DASHBOARD_WEEK_START: 0-6 or a day name (default sunday)
+ * - theme / DASHBOARD_THEME: color, eink or eink-grayscale (default color)
+ * - units / DASHBOARD_UNITS: metric, imperial or uk, optionally with per-quantity
+ *   overrides in the config file (default metric)
+ * Invalid values are logged and replaced with the default
+ */
+export function getDisplaySettings(): DisplaySettings {
+  const settings = { ...DEFAULT_DISPLAY_SETTINGS };
+  const display = getConfiguredDisplay();
+
+  const timeZone = (display.timeZone ?? process.env.DASHBOARD_TIMEZONE)?.trim();
+  if (timeZone) {
+    if (isValidTimeZone(timeZone)) {
+      settings.timeZone = timeZone;
+    } else {
+      console.warn(`Invalid time zone "${timeZone}", using ${settings.timeZone}`);
+    }
+  }
+
+  const locale = (display.locale ?? process.env.DASHBOARD_LOCALE)?.trim();
+  if (locale) {
+    if (isValidLocale(locale)) {
+      settings.locale = locale;
+    } else {
+      console.warn(`Invalid locale "${locale}", using ${settings.locale}`);
+    }
+  }
+
+  const hourCycle = (display.hourCycle?.toString() ?? process.env.DASHBOARD_HOUR_CYCLE)?.trim();
+  if (hourCycle) {
+    if (hourCycle === '12' || hourCycle === '24') {
+      settings.hour12 = hourCycle === '12';
+    } else {
+      console.warn(`Invalid hour cycle "${hourCycle}", expected 12 or 24`);
+    }
+  }
+
+  const weekStart = display.weekStart?.toString() ?? process.env.DASHBOARD_WEEK_START;
+  if (weekStart) {
+    const weekStartsOn = parseWeekStart(weekStart);
+    if (weekStartsOn !== null) {
+      settings.weekStartsOn = weekStartsOn;
+    } else {
+      console.warn(`Invalid week start "${weekStart}", using ${WEEKDAY_NAMES[settings.weekStartsOn]}`);
+    }
+  }
+
+  const theme = (display.theme ?? process.env.DASHBOARD_THEME)?.trim();
+  if (theme) {
+    if ((DISPLAY_THEMES as string[]).includes(theme)) {
+      settings.theme = theme as DisplayTheme;
+    } else {
+      console.warn(`Invalid theme "${theme}", expected ${DISPLAY_THEMES.join(', ')}`);
+    }
+  }
+
+  settings.units = getUnits(display, settings.units);
+
+  return settings;
+}
@@ -0,0 +1,175 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import type { DisplaySettings, WeatherData } from '@/types';
+import type { AirQualityConditions, PollenType, Pollutants } from './types';
+
+// Air quality indices computed from pollutant concentrations, so any provider
+// can show the scale people know locally:
+// - US AQI (EPA): worst of the pollutants' sub-indices, 0-500
+// - AQHI (Canada): combined health risk of O3, NO2 and PM2.5, 1-10+
+// Both are defined on averages (24 h for particles, 8 h or 3 h for gases);
+// hourly concentrations stand in for them, which reads high on spiky hours.
+
+export type AirQualityScale = 'us' | 'aqhi';
+
+type AirQuality = NonNullable<WeatherData['airQuality']>;
+type Pollutant = keyof Pollutants;
+
+// µg/m³ per ppb at 25 °C, for the gases the EPA breakpoints give in ppb
+const UG_PER_PPB: Partial<Record<Pollutant, number>> = {
+  o3: 1.96,
+  no2: 1.88,
+};
+
+// [concentration low, concentration high, index low, index high]
+type Breakpoint = [number, number, number, number];
+
+// EPA breakpoints (2024 revision for PM2.5); µg/m³ for particles, ppb for gases
+const US_BREAKPOINTS: Record<Pollutant, Breakpoint[]> = {
+  pm2_5: [[0, 9, 0, 50], [9.1, 35.4, 51, 100], [35.5, 55.4, 101, 150], [55.5, 125.4, 151, 200], [125.5, 225.4, 201, 300], [225.5, 325.4, 301, 500]],
+  pm10: [[0, 54, 0, 50], [55, 154, 51, 100], [155, 254, 101, 150], [255, 354, 151, 200], [355, 424, 201, 300], [425, 604, 301, 500]],
+  // 8-hour ozone; the scale stops at 300 where the EPA switches to 1-hour values
+  o3: [[0, 54, 0, 50], [55, 70, 51, 100], [71, 85, 101, 150], [86, 105, 151, 200], [106, 200, 201, 300]],
+  no2: [[0, 53, 0, 50], [54, 100, 51, 100], [101, 360, 101, 150], [361, 649, 151, 200], [650, 1249, 201, 300], [1250, 2049, 301, 500]],
+};
+
+const US_CATEGORIES: Array<{ max: number; category: string; guidance: string }> = [
+  { max: 50, category: 'Good', guidance: 'Air quality is good. A fine day to be active outside.' },
+  { max: 100, category: 'Moderate', guidance: 'Unusually sensitive people should consider less prolonged or heavy exertion outdoors.' },
+  { max: 150, category: 'Unhealthy for sensitive groups', guidance: 'Children, older adults and people with heart or lung disease should reduce prolonged or heavy exertion outdoors.' },
+  { max: 200, category: 'Unhealthy', guidance: 'Everyone should reduce prolonged or heavy exertion outdoors; sensitive groups should avoid it.' },
+  { max: 300, category: 'Very unhealthy', guidance: 'Everyone should avoid prolonged or heavy exertion outdoors.' },
+  { max: Infinity, category: 'Hazardous', guidance: 'Everyone should avoid all physical activity outdoors.' },
+];
+
+const AQHI_CATEGORIES: Array<{ max: number; category: string; guidance: string }> = [
+  { max: 3, category: 'Low risk', guidance: 'Ideal air quality for outdoor activities.' },
+  { max: 6, category: 'Moderate risk', guidance: 'No need to change outdoor activities unless you have symptoms such as coughing or throat irritation.' },
+  { max: 10, category: 'High risk', guidance: 'Consider reducing or rescheduling strenuous activities outdoors if you have symptoms.' },
+  { max: Infinity, category: 'Very high risk', guidance: 'Reduce or reschedule strenuous activities outdoors, especially if you have symptoms.' },
+];
+
+// Grains/m³ from which a pollen count is low, moderate, high; ragweed provokes reactions at lower counts
+const POLLEN_THRESHOLDS: Record<PollenType, [number, number, number]> = {
+  alder: [1, 30, 100],
+  birch: [1, 30, 100],
+  grass: [1, 20, 50],
+  mugwort: [1, 10, 50],
+  olive: [1, 30, 100],
+  ragweed: [1, 5, 20],
+};
+
+// Days of forecast after today
+const FORECAST_DAYS = 3;
+
+function toPpb(pollutant: Pollutant, value: number): number {
+  const factor = UG_PER_PPB[pollutant];
+  return factor ? value / factor : value;
+}
+
+function getUsSubIndex(pollutant: Pollutant, value: number): number {
+  const breakpoints = US_BREAKPOINTS[pollutant];
+  // EPA truncates concentrations to the breakpoints' precision before looking them up
+  const concentration = Math.floor(toPpb(pollutant, value) * 10) / 10;
+  const [cLow, cHigh, iLow, iHigh] =
+    breakpoints.find(([, high]) => concentration <= high) ?? breakpoints[breakpoints.length - 1];
+  const index = ((iHigh - iLow) / (cHigh - cLow)) * (Math.min(concentration, cHigh) - cLow) + iLow;
+  return Math.max(0, Math.round(index));
+}
+
+/**
+ * US AQI of the pollutants and the one that sets it
+ */
+export function getUsAqi(pollutants: Pollutants): { value: number; dominant: Pollutant } {
+  return (Object.keys(US_BREAKPOINTS) as Pollutant[])
+    .map((pollutant) => ({ value: getUsSubIndex(pollutant, pollutants[pollutant]), dominant: pollutant }))
+    .reduce((worst, current) => (current.value > worst.value ? current : worst));
+}
+
+/**
+ * Canadian AQHI of the pollutants, 1 upwards (above 10 reads "10+")
+ */
+export function getAqhi(pollutants: Pollutants): number {
+  const risk = (Math.exp(0.000871 * toPpb('no2', pollutants.no2)) - 1)
+    + (Math.exp(0.000537 * toPpb('o3', pollutants.o3)) - 1)
+    + (Math.exp(0.000487 * pollutants.pm2_5) - 1);
+  return Math.max(1, Math.round((10 / 10.4) * 100 * risk));
+}
+
+function getIndex(scale: AirQualityScale, pollutants: Pollutants): AirQuality['index'] {
+  const { value, dominant } = scale === 'us'
+    ? getUsAqi(pollutants)
+    : { value: getAqhi(pollutants), dominant: null };
+  const categories = scale === 'us' ? US_CATEGORIES : AQHI_CATEGORIES;
+  const level = categories.findIndex((category) => value <= category.max);
+
+  return {
+    scale,
+    value,
+    display: scale === 'aqhi' && value > 10 ? '10+' : String(value),
+    level: level + 1,
+    levels: categories.length,
+    category: categories[level].category,
+    guidance: categories[level].guidance,
+    dominant,
+  };
+}
+
+function getPollenLevel(type: PollenType, value: number): AirQuality['pollen'][number]['level'] {
+  const [low, moderate, high] = POLLEN_THRESHOLDS[type];
+  if (value >= high) return 'high';
+  if (value >= moderate) return 'moderate';
+  if (value >= low) return 'low';
+  return 'none';
+}
+
+/**
+ * Air quality on the chosen scale now and for the next days (the worst hour
+ * of each, in the dashboard zone), with the pollen the provider reports
+ */
+export function buildAirQuality(
+  airQuality: AirQualityConditions | null,
+  scale: AirQualityScale,
+  settings: DisplaySettings,
+  now: Date = new Date()
+): WeatherData['airQuality'] {
+  if (!airQuality) {
+    return null;
+  }
+
+  const dayKey = (time: Date) => formatInTimeZone(time, settings.timeZone, 'yyyy-MM-dd');
+  const today = dayKey(now);
+  const days = new Map<string, { date: Date; index: AirQuality['index'] }>();
+
+  for (const sample of airQuality.forecast) {
+    const key = dayKey(sample.time);
+    if (key === today) continue;
+
+    const index = getIndex(scale, sample.pollutants);
+    const worst = days.get(key);
+    if (!worst || index.value > worst.index.value) {
+      days.set(key, { date: worst?.date ?? sample.time, index });
+    }
+  }
+
+  return {
+    index: getIndex(scale, airQuality.pollutants),
+    pollutants: {
+      pm2_5: Math.round(airQuality.pollutants.pm2_5),
+      pm10: Math.round(airQuality.pollutants.pm10),
+      o3: Math.round(airQuality.pollutants.o3),
+      no2: Math.round(airQuality.pollutants.no2),
+    },
+    forecast: [...days.values()].slice(0, FORECAST_DAYS).map(({ date, index }) => ({
+      date: date.toISOString(),
+      value: index.value,
+      display: index.display,
+      level: index.level,
+      category: index.category,
+    })),
+    pollen: (Object.entries(airQuality.pollen) as Array<[PollenType, number]>).map(([type, value]) => ({
+      type,
+      value: Math.round(value),
+      level: getPollenLevel(type, value),
+    })),
+  };
+}
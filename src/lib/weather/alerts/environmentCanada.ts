@@ -0,0 +1,96 @@
+import type { AlertSource, WeatherAlert } from '../types';
+import { getAttribute, getElements, getText } from './xml';
+import { inferSeverity, parseCapSeverity } from './severity';
+
+// Environment Canada public alerts
+// - Atom "battleboard" feeds per region, e.g. https://weather.gc.ca/rss/battleboard/onrm97_e.xml
+// - CAP-CP documents from the MSC Datamart (https://dd.weather.gc.ca/alerts/cap/)
+// Feeds cover one region, so each location lists its own (environmentCanadaAlerts in
+// the config file; ENVIRONMENT_CANADA_ALERTS_URL, comma separated, for the dashboard's location).
+
+const SOURCE_NAME = 'Environment Canada';
+
+function toDate(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Alerts from an Atom feed. Entries that only say nothing is in effect, or that
+ * a warning has ended, are skipped. Atom entries carry no expiry time.
+ */
+export function parseAtomAlerts(xml: string): WeatherAlert[] {
+  return getElements(xml, 'entry').flatMap((entry) => {
+    const title = getText(entry, 'title') || '';
+    if (!title || /^no (watches|warnings|alerts)\b/i.test(title) || /\bended\b/i.test(title)) {
+      return [];
+    }
+
+    // "YELLOW WARNING - RAINFALL, City of Toronto" -> "Yellow warning - rainfall"
+    const event = title.split(',')[0].trim();
+
+    return [{
+      id: getText(entry, 'id') || title,
+      source: SOURCE_NAME,
+      event: event.charAt(0) + event.slice(1).toLowerCase(),
+      headline: title,
+      severity: inferSeverity(title),
+      description: getText(entry, 'summary') || '',
+      start: toDate(getText(entry, 'published') || getText(entry, 'updated')),
+      expires: null,
+      url: getAttribute(entry, 'link', 'href') || undefined,
+    }];
+  });
+}
+
+/**
+ * The alert in a CAP document, using its English <info> block
+ * Cancellations and non-actual messages (tests, exercises) yield nothing
+ */
+export function parseCapAlert(xml: string): WeatherAlert[] {
+  const status = getText(xml, 'status');
+  const msgType = getText(xml, 'msgType');
+  if ((status && status !== 'Actual') || msgType === 'Cancel') {
+    return [];
+  }
+
+  const infos = getElements(xml, 'info');
+  const info = infos.find((block) => getText(block, 'language')?.toLowerCase().startsWith('en')) || infos[0];
+  if (!info) {
+    return [];
+  }
+
+  const event = getText(info, 'event') || 'Alert';
+  const headline = getText(info, 'headline') || event;
+
+  return [{
+    id: getText(xml, 'identifier') || headline,
+    source: getText(info, 'senderName') || SOURCE_NAME,
+    event: event.charAt(0).toUpperCase() + event.slice(1),
+    headline,
+    severity: parseCapSeverity(getText(info, 'severity')),
+    description: getText(info, 'description') || '',
+    start: toDate(getText(info, 'onset') || getText(info, 'effective') || getText(xml, 'sent')),
+    expires: toDate(getText(info, 'expires')),
+    url: getText(info, 'web') || undefined,
+  }];
+}
+
+async function fetchFeed(url: string): Promise<WeatherAlert[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Environment Canada alerts request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const xml = await response.text();
+  return /<(?:[\w-]+:)?alert[\s>]/.test(xml) ? parseCapAlert(xml) : parseAtomAlerts(xml);
+}
+
+export function createEnvironmentCanadaAlertSource(): AlertSource {
+  return {
+    id: 'environment-canada',
+    // Locations without feeds of their own get no Environment Canada alerts
+    fetchAlerts: async (location) => (await Promise.all((location.environmentCanadaAlerts || []).map(fetchFeed))).flat(),
+  };
+}
@@ -0,0 +1,47 @@
+import type { AlertSource, WeatherAlert, WeatherLocation } from '../types';
+import { createEnvironmentCanadaAlertSource } from './environmentCanada';
+import { createNwsAlertSource } from './nws';
+import { compareAlerts } from './severity';
+
+// Registered government alert feeds. A factory returns null when its feed isn't
+// configured; Environment Canada's and the NWS's are always registered and check
+// the location, since both only cover some places.
+const ALERT_SOURCE_FACTORIES: Array<() => AlertSource | null> = [
+  createEnvironmentCanadaAlertSource,
+  createNwsAlertSource,
+];
+
+export function getEnabledAlertSources(): AlertSource[] {
+  return ALERT_SOURCE_FACTORIES
+    .map((createSource) => createSource())
+    .filter((source): source is AlertSource => source !== null);
+}
+
+/**
+ * Fetch alerts from every enabled feed. A failing feed is logged and skipped
+ * so the forecast still loads.
+ */
+export async function fetchAlertsFromSources(sources: AlertSource[], location: WeatherLocation): Promise<WeatherAlert[]> {
+  const results = await Promise.all(sources.map((source) =>
+    source.fetchAlerts(location).catch((error) => {
+      console.error(`Error fetching alert source ${source.id}:`, error);
+      return [];
+    })
+  ));
+
+  return results.flat();
+}
+
+/**
+ * Drop expired and duplicate alerts (same id) and sort the most severe first
+ */
+export function mergeAlerts(alerts: WeatherAlert[], now: Date = new Date()): WeatherAlert[] {
+  const byId = new Map<string, WeatherAlert>();
+  alerts.forEach((alert) => {
+    if (!alert.expires || alert.expires.getTime() > now.getTime()) {
+      byId.set(alert.id, alert);
+    }
+  });
+
+  return Array.from(byId.values()).sort(compareAlerts);
+}
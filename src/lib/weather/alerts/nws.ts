@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import type { AlertSource, WeatherAlert } from '../types';
+import { parseCapSeverity } from './severity';
+import { parsePayload } from '@/types/schema';
+
+// US National Weather Service active alerts for a point (https://www.weather.gov/documentation/services-web-api)
+// The service only covers the US, so each location opts in (nwsAlerts in the config file;
+// NWS_ALERTS=true for the dashboard's location). api.weather.gov asks for a User-Agent
+// identifying the app.
+
+const DEFAULT_USER_AGENT = 'fire-tablet-dashboard';
+
+const NwsAlertsSchema = z.object({
+  features: z.array(z.object({
+    properties: z.object({
+      id: z.string(),
+      senderName: z.string().nullish(),
+      event: z.string(),
+      headline: z.string().nullish(),
+      severity: z.string().nullish(),
+      description: z.string().nullish(),
+      onset: z.string().nullish(),
+      effective: z.string().nullish(),
+      ends: z.string().nullish(),
+      expires: z.string().nullish(),
+      status: z.string().nullish(),
+      messageType: z.string().nullish(),
+      '@id': z.string().nullish(),
+    }),
+  })),
+});
+
+function toDate(value: string | null | undefined): Date | null {
+  return value ? new Date(value) : null;
+}
+
+async function fetchAlerts(lat: string, lon: string): Promise<WeatherAlert[]> {
+  const response = await fetch(`https://api.weather.gov/alerts/active?point=${lat},${lon}`, {
+    headers: {
+      'Accept': 'application/geo+json',
+      'User-Agent': process.env.NWS_USER_AGENT || DEFAULT_USER_AGENT,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`NWS alerts request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const data = parsePayload(NwsAlertsSchema, await response.json(), 'NWS alerts');
+
+  return data.features
+    .filter(({ properties }) => properties.status === 'Actual' && properties.messageType !== 'Cancel')
+    .map(({ properties }) => ({
+      id: properties.id,
+      source: properties.senderName || 'National Weather Service',
+      event: properties.event,
+      headline: properties.headline || properties.event,
+      severity: parseCapSeverity(properties.severity),
+      description: properties.description || '',
+      start: toDate(properties.onset || properties.effective),
+      // "ends" is when the hazard ends; "expires" only when this message is superseded
+      expires: toDate(properties.ends || properties.expires),
+      url: properties['@id'] || undefined,
+    }));
+}
+
+export function createNwsAlertSource(): AlertSource {
+  return {
+    id: 'nws',
+    // Only for locations that opt in; elsewhere the service has nothing to say
+    fetchAlerts: async ({ lat, lon, nwsAlerts }) => (nwsAlerts ? fetchAlerts(lat, lon) : []),
+  };
+}
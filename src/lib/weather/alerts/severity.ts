@@ -0,0 +1,44 @@
+import type { AlertSeverity, WeatherAlert } from '../types';
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  extreme: 4,
+  severe: 3,
+  moderate: 2,
+  minor: 1,
+  unknown: 0,
+};
+
+/**
+ * Map a CAP severity value ("Extreme", "Severe", "Moderate", "Minor", "Unknown")
+ */
+export function parseCapSeverity(value: string | null | undefined): AlertSeverity {
+  const severity = value?.trim().toLowerCase();
+  return severity && severity in SEVERITY_RANK ? severity as AlertSeverity : 'unknown';
+}
+
+/**
+ * Guess the severity of an alert from its title when the source doesn't say
+ * - Environment Canada colour codes: red, orange, yellow
+ * - Otherwise warnings are severe, watches moderate, advisories and statements minor
+ */
+export function inferSeverity(title: string): AlertSeverity {
+  const text = title.toLowerCase();
+
+  if (/\bred\b/.test(text)) return 'extreme';
+  if (/\borange\b/.test(text)) return 'severe';
+  if (/\byellow\b/.test(text)) return 'moderate';
+  if (/\b(tornado|hurricane|extreme)\b.*\bwarning\b/.test(text)) return 'extreme';
+  if (/\bwarning\b/.test(text)) return 'severe';
+  if (/\bwatch\b/.test(text)) return 'moderate';
+  if (/\b(advisory|statement|bulletin)\b/.test(text)) return 'minor';
+  return 'unknown';
+}
+
+/**
+ * Most severe first; among equals, the one expiring soonest
+ */
+export function compareAlerts(a: WeatherAlert, b: WeatherAlert): number {
+  const bySeverity = SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity];
+  if (bySeverity !== 0) return bySeverity;
+  return (a.expires?.getTime() ?? Infinity) - (b.expires?.getTime() ?? Infinity);
+}
@@ -0,0 +1,56 @@
+// Minimal XML helpers for the flat Atom and CAP documents used by alert feeds.
+// Not a general XML parser: elements are matched by local name, ignoring namespaces.
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function elementPattern(name: string, flags: string): RegExp {
+  // Optional namespace prefix, attributes, then content up to the matching close tag
+  return new RegExp(`<(?:[\\w-]+:)?${name}(\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`, flags);
+}
+
+/**
+ * Raw inner XML of every element with the given local name
+ */
+export function getElements(xml: string, name: string): string[] {
+  return Array.from(xml.matchAll(elementPattern(name, 'gi')), (match) => match[2]);
+}
+
+/**
+ * Text content of the first element with the given local name, or null
+ * CDATA is unwrapped, entities decoded and (for HTML content) tags removed
+ */
+export function getText(xml: string, name: string): string | null {
+  const match = xml.match(elementPattern(name, 'i'));
+  if (!match) return null;
+
+  const content = match[2].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+  return decodeEntities(decodeEntities(content).replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, ''))
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Value of an attribute on the first element with the given local name, or null
+ */
+export function getAttribute(xml: string, name: string, attribute: string): string | null {
+  const tag = xml.match(new RegExp(`<(?:[\\w-]+:)?${name}\\s[^>]*>`, 'i'));
+  const value = tag?.[0].match(new RegExp(`\\s${attribute}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i'));
+  return value ? decodeEntities(value[2] ?? value[3]) : null;
+}
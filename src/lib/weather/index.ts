@@ -0,0 +1,313 @@
+import { startOfDay } from 'date-fns';
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+import { getDisplaySettings } from '@/lib/settings';
+import { createResponseCache, getDurationFromEnv, type CacheResult, type CacheStatus } from '@/lib/cache';
+import { ConfigurationError, UnknownLocationError } from '@/lib/errors';
+import type { DisplaySettings, WeatherData } from '@/types';
+import { formatTime } from '@/utils/dateTime';
+import { convert } from '@/utils/units';
+import { getWeatherProvider } from './providers';
+import { fetchAlertsFromSources, getEnabledAlertSources, mergeAlerts } from './alerts';
+import { buildAirQuality, type AirQualityScale } from './airQuality';
+import { buildNowcast } from './nowcast';
+import type { DailyConditions, ProviderWeather, WeatherLocation } from './types';
+import { getMoonIllumination, getMoonTimes, getNextMoonPhase } from '@/lib/astronomy/moon';
+import { getSunTimes } from '@/lib/astronomy/sun';
+import { getDashboardConfig, type DashboardConfig } from '@/lib/config';
+import { getProfile } from '@/lib/config/profiles';
+
+// Shared across requests so several tablets polling the same location cost one set of upstream calls.
+// Holds the provider's data as fetched; units, formatting and the air quality scale are
+// applied per request, so dashboards with different settings can share an entry.
+const weatherCache = createResponseCache<ProviderWeather>('weather', {
+  ttlMs: getDurationFromEnv('WEATHER_CACHE_TTL_SECONDS', 300),
+  staleWhileRevalidateMs: getDurationFromEnv('WEATHER_CACHE_SWR_SECONDS', 3600),
+});
+
+// Hours of hourly forecast sent to tablets
+const HOURLY_FORECAST_HOURS = 48;
+
+// Days with less precipitation than this count as dry
+const MEASURABLE_PRECIPITATION_MM = 0.2;
+
+// Payload built from the cached provider data; fetchedAt and stale are added from
+// the cache state, along with the named locations the dashboard shows
+type WeatherPayload = Omit<WeatherData, 'fetchedAt' | 'stale' | 'locations'>;
+
+// Sun times of a forecast day: sunrise and sunset as the provider reports them,
+// twilight, solar noon and the change from the day before calculated locally
+function buildSunDay(day: DailyConditions, location: WeatherLocation): WeatherData['sun']['today'] {
+  const lat = Number(location.lat);
+  const lon = Number(location.lon);
+  const times = getSunTimes(day.time, lat, lon);
+  const previous = getSunTimes(new Date(day.time.getTime() - 24 * 60 * 60 * 1000), lat, lon);
+
+  return {
+    sunrise: day.sunrise.toISOString(),
+    sunset: day.sunset.toISOString(),
+    civilDawn: times.civilDawn?.toISOString() ?? null,
+    civilDusk: times.civilDusk?.toISOString() ?? null,
+    solarNoon: times.solarNoon.toISOString(),
+    dayLength: Math.round((day.sunset.getTime() - day.sunrise.getTime()) / 1000),
+    dayLengthChange: times.dayLength - previous.dayLength,
+  };
+}
+
+// Name and weather-icons glyph of a moon phase (0 = new, 0.5 = full), one of 28 steps
+function describeMoonPhase(phase: number): { name: string; icon: string } {
+  const step = Math.round(phase * 28) % 28;
+
+  if (step === 0) return { name: 'New Moon', icon: 'moon-alt-new' };
+  if (step < 7) return { name: 'Waxing Crescent', icon: `moon-alt-waxing-crescent-${step}` };
+  if (step === 7) return { name: 'First Quarter', icon: 'moon-alt-first-quarter' };
+  if (step < 14) return { name: 'Waxing Gibbous', icon: `moon-alt-waxing-gibbous-${step - 7}` };
+  if (step === 14) return { name: 'Full Moon', icon: 'moon-alt-full' };
+  if (step < 21) return { name: 'Waning Gibbous', icon: `moon-alt-waning-gibbous-${step - 14}` };
+  if (step === 21) return { name: 'Third Quarter', icon: 'moon-alt-third-quarter' };
+  return { name: 'Waning Crescent', icon: `moon-alt-waning-crescent-${step - 21}` };
+}
+
+// The moon today in the dashboard zone, calculated locally so every provider gets it
+function buildMoon(location: WeatherLocation, settings: DisplaySettings, now: Date = new Date()): WeatherData['moon'] {
+  const { phase, fraction } = getMoonIllumination(now);
+  const dayStart = fromZonedTime(startOfDay(toZonedTime(now, settings.timeZone)), settings.timeZone);
+  const times = getMoonTimes(dayStart, Number(location.lat), Number(location.lon));
+
+  return {
+    phase,
+    illumination: Math.round(fraction * 100),
+    ...describeMoonPhase(phase),
+    rise: times.rise?.toISOString() ?? null,
+    set: times.set?.toISOString() ?? null,
+    nextFull: getNextMoonPhase(now, 'full').toISOString(),
+    nextNew: getNextMoonPhase(now, 'new').toISOString(),
+  };
+}
+
+// Whether a day's precipitation is rain, snow or both; null when there's next to none
+function getPrecipitationType(day: DailyConditions): WeatherData['forecast'][number]['precipitationType'] {
+  if (day.precipitation < MEASURABLE_PRECIPITATION_MM) return null;
+
+  const snowShare = day.snow / day.precipitation;
+  if (snowShare >= 0.8) return 'snow';
+  if (snowShare <= 0.2) return 'rain';
+  return 'mixed';
+}
+
+// Shape provider data into the payload sent to tablets
+function buildWeatherPayload(
+  data: ProviderWeather,
+  location: WeatherLocation,
+  settings: DisplaySettings,
+  airQualityScale: AirQualityScale
+): WeatherPayload {
+  const { current, hourly, daily } = data;
+  const { units } = settings;
+  const temperature = (value: number) => convert('temperature', value, units);
+
+  // Get today's high/low from daily forecast
+  const todayDaily = daily[0];
+  const high = temperature(todayDaily.tempMax);
+  const low = temperature(todayDaily.tempMin);
+
+  // Get peak UV for today from daily forecast (max UV for the day)
+  // The daily uvIndex field contains the maximum UV index for the day
+  const peakUVFormatted = todayDaily.uvIndex ? Math.round(todayDaily.uvIndex) : null;
+
+  // Peak UV typically occurs around solar noon (roughly 12-2 PM)
+  // We'll display "Peak" without specific time since daily data doesn't provide exact time
+  const peakUVTimeFormatted = peakUVFormatted ? '' : null;
+
+  // Hours from the current one; cards choose how many to show
+  const hourlyForecasts = hourly.slice(0, HOURLY_FORECAST_HOURS).map((item) => ({
+    time: item.time.toISOString(),
+    temp: temperature(item.temp),
+    feelsLike: temperature(item.feelsLike),
+    icon: item.condition.icon,
+    weatherId: item.condition.weatherId,
+    pop: Math.round(item.pop * 100), // Probability of precipitation as percentage
+    precipitation: convert('precipitation', item.precipitation, units),
+  }));
+
+  // Get next 7 days forecast
+  const dailyForecasts = daily.slice(1, 8).map((item) => ({
+    date: item.time.toISOString(),
+    temp: temperature(item.temp),
+    high: temperature(item.tempMax),
+    low: temperature(item.tempMin),
+    description: item.condition.description,
+    icon: item.condition.icon,
+    weatherId: item.condition.weatherId,
+    pop: Math.round(item.pop * 100),
+    precipitation: convert('precipitation', item.precipitation, units),
+    precipitationType: getPrecipitationType(item),
+    windSpeed: convert('speed', item.windSpeed, units),
+    windGust: item.windGust !== null ? convert('speed', item.windGust, units) : null,
+    uvIndex: Math.round(item.uvIndex),
+    sunrise: item.sunrise.toISOString(),
+    sunset: item.sunset.toISOString(),
+  }));
+
+  // Determine next sunrise or sunset
+  const now = Date.now();
+  const sunrise = todayDaily.sunrise.getTime();
+  const sunset = todayDaily.sunset.getTime();
+
+  let nextSunEvent = {
+    type: 'sunrise' as 'sunrise' | 'sunset',
+    time: sunrise,
+  };
+
+  if (now < sunrise) {
+    nextSunEvent = { type: 'sunrise', time: sunrise };
+  } else if (now < sunset) {
+    nextSunEvent = { type: 'sunset', time: sunset };
+  } else {
+    // After sunset, show tomorrow's sunrise
+    nextSunEvent = { type: 'sunrise', time: daily[1].sunrise.getTime() };
+  }
+
+  const weatherData = {
+    current: {
+      temp: temperature(current.temp),
+      high,
+      low,
+      description: current.condition.description,
+      icon: current.condition.icon,
+      weatherId: current.condition.weatherId,
+      humidity: current.humidity,
+      windSpeed: convert('speed', current.windSpeed, units),
+      windDeg: current.windDeg,
+      feelsLike: temperature(current.feelsLike),
+      uvIndex: Math.round(current.uvIndex),
+      peakUV: peakUVFormatted,
+      peakUVTime: peakUVTimeFormatted,
+      aqi: data.airQuality?.level ?? null,
+      precipitationToday: convert('precipitation', todayDaily.precipitation, units),
+      nextSunEvent: {
+        type: nextSunEvent.type,
+        time: formatTime(nextSunEvent.time, settings),
+        at: new Date(nextSunEvent.time).toISOString(),
+      },
+    },
+    nowcast: buildNowcast(data.minutely, hourly),
+    airQuality: buildAirQuality(data.airQuality, airQualityScale, settings),
+    hourly: hourlyForecasts,
+    forecast: dailyForecasts,
+    sun: {
+      today: buildSunDay(todayDaily, location),
+      tomorrow: buildSunDay(daily[1], location),
+    },
+    moon: buildMoon(location, settings),
+    alerts: mergeAlerts(data.alerts).map((alert) => ({
+      id: alert.id,
+      source: alert.source,
+      event: alert.event,
+      headline: alert.headline,
+      severity: alert.severity,
+      description: alert.description,
+      start: alert.start?.toISOString() ?? null,
+      expires: alert.expires?.toISOString() ?? null,
+      url: alert.url ?? null,
+    })),
+    location: data.location,
+    units,
+  };
+
+  return weatherData;
+}
+
+export interface WeatherResult {
+  payload: WeatherData;
+  cacheStatus: CacheStatus;
+}
+
+// A location's provider data, with the alert feeds' alerts, via the shared cache
+function getLocationWeather(location: WeatherLocation, config: DashboardConfig): Promise<CacheResult<ProviderWeather>> {
+  const provider = getWeatherProvider(config.weather.provider);
+  const alertSources = getEnabledAlertSources();
+
+  // Cache is keyed by provider and location (with the alert feeds it takes); stale entries
+  // are served while refreshing in the background
+  const feeds = [...(location.environmentCanadaAlerts || []), ...(location.nwsAlerts ? ['nws'] : [])].join(',');
+  return weatherCache.get(`${provider.id}:${location.lat},${location.lon}:${feeds}`, async () => {
+    const [data, feedAlerts] = await Promise.all([
+      provider.fetchWeather(location),
+      fetchAlertsFromSources(alertSources, location),
+    ]);
+    return { ...data, alerts: [...data.alerts, ...feedAlerts] };
+  });
+}
+
+// Current conditions at each named location; one that fails to load is listed without them
+async function getLocationSummaries(
+  locationIds: string[],
+  config: DashboardConfig,
+  settings: DisplaySettings
+): Promise<WeatherData['locations']> {
+  const results = await Promise.allSettled(
+    locationIds.map((id) => getLocationWeather(config.weather.locations[id], config))
+  );
+
+  return results.map((result, index) => {
+    const id = locationIds[index];
+    const name = config.weather.locations[id].name || id;
+    if (result.status === 'rejected') {
+      return { id, name, current: null, stale: true };
+    }
+
+    const { current, daily } = result.value.value;
+    const temperature = (value: number) => convert('temperature', value, settings.units);
+    return {
+      id,
+      name,
+      current: {
+        temp: temperature(current.temp),
+        high: temperature(daily[0].tempMax),
+        low: temperature(daily[0].tempMin),
+        description: current.condition.description,
+        icon: current.condition.icon,
+        weatherId: current.condition.weatherId,
+      },
+      stale: result.value.stale,
+    };
+  });
+}
+
+/**
+ * Current weather payload for a named location, or the profile's location
+ * (the configured location by default), via the shared cache
+ * Throws UnknownLocationError for a location id that isn't configured and
+ * ConfigurationError when no location or provider is configured
+ */
+export async function getWeather(profileId?: string | null, locationId?: string | null): Promise<WeatherResult> {
+  const config = getDashboardConfig();
+  const profile = getProfile(profileId, config);
+
+  if (locationId && !Object.hasOwn(config.weather.locations, locationId)) {
+    throw new UnknownLocationError(locationId);
+  }
+  const location = locationId ? config.weather.locations[locationId] : profile.location;
+  if (!location) {
+    throw new ConfigurationError('Missing weather location. Set weather.location in dashboard.config.json or WEATHER_LAT and WEATHER_LON.');
+  }
+
+  // Other locations cost upstream calls of their own; only load them for a dashboard
+  // showing the locations card, never for a single named location
+  const showsLocations = !locationId && profile.layout.widgets.some((placement) => placement.widget === 'locations');
+  const settings = getDisplaySettings();
+  const [cached, locations] = await Promise.all([
+    getLocationWeather(location, config),
+    showsLocations ? getLocationSummaries(profile.locationIds, config, settings) : [],
+  ]);
+
+  return {
+    payload: {
+      ...buildWeatherPayload(cached.value, location, settings, config.weather.airQualityIndex),
+      locations,
+      fetchedAt: cached.fetchedAt.toISOString(),
+      stale: cached.stale,
+    },
+    cacheStatus: cached.status,
+  };
+}
@@ -0,0 +1,67 @@
+import type { WeatherData } from '@/types';
+import type { HourlyConditions, MinutelyPrecipitation } from './types';
+
+// Short-term precipitation from the provider's minute-by-minute (or quarter-hour)
+// forecast: whether it's raining now, when that changes within the next hour and
+// how hard. The card phrases it against the current minute.
+
+const HORIZON_MS = 60 * 60 * 1000;
+
+// Rates below this are trace amounts nobody needs an umbrella for, mm/h
+const WET_THRESHOLD = 0.1;
+
+// Upper bounds of light and moderate rain, mm/h
+const LIGHT_MAX = 2.5;
+const MODERATE_MAX = 7.6;
+
+type Nowcast = NonNullable<WeatherData['nowcast']>;
+
+function toIntensity(rate: number): Nowcast['intensity'] {
+  if (rate < LIGHT_MAX) return 'light';
+  if (rate < MODERATE_MAX) return 'moderate';
+  return 'heavy';
+}
+
+// Snow when the hours it covers are forecast as snow (OpenWeatherMap ids 6xx)
+function getPrecipitationType(hours: HourlyConditions[]): Nowcast['type'] {
+  return hours.slice(0, 2).some((hour) => Math.floor(hour.condition.weatherId / 100) === 6) ? 'snow' : 'rain';
+}
+
+/**
+ * Precipitation over the next hour, or null when the provider has no minutely
+ * data for the location
+ */
+export function buildNowcast(
+  minutely: MinutelyPrecipitation[] | null,
+  hourly: HourlyConditions[],
+  now: Date = new Date()
+): WeatherData['nowcast'] {
+  const end = now.getTime() + HORIZON_MS;
+  // Intervals overlapping the next hour; each lasts until the next one starts
+  const samples = (minutely || []).filter((sample, index, all) => {
+    const sampleEnd = all[index + 1]?.time.getTime() ?? sample.time.getTime() + 60 * 1000;
+    return sampleEnd > now.getTime() && sample.time.getTime() < end;
+  });
+
+  if (samples.length === 0) {
+    return null;
+  }
+
+  const isWet = (sample: MinutelyPrecipitation) => sample.intensity >= WET_THRESHOLD;
+  const precipitating = isWet(samples[0]);
+  const change = samples.findIndex((sample) => isWet(sample) !== precipitating);
+
+  // The spell the summary is about: the current one, or the next one to start
+  const spellStart = precipitating ? 0 : change;
+  const spell = spellStart >= 0 ? samples.slice(spellStart) : [];
+  const spellEnd = spell.findIndex((sample) => !isWet(sample));
+  const peak = Math.max(0, ...(spellEnd >= 0 ? spell.slice(0, spellEnd) : spell).map((sample) => sample.intensity));
+
+  return {
+    type: getPrecipitationType(hourly),
+    precipitating,
+    intensity: spell.length > 0 ? toIntensity(peak) : null,
+    changeAt: change >= 0 ? new Date(Math.max(samples[change].time.getTime(), now.getTime())).toISOString() : null,
+    until: new Date(end).toISOString(),
+  };
+}
@@ -0,0 +1,37 @@
+import type { WeatherProvider } from '../types';
+import { ConfigurationError } from '@/lib/errors';
+import { createOpenWeatherMapProvider } from './openweathermap';
+import { createOpenMeteoProvider } from './openmeteo';
+
+// Registered provider factories by WEATHER_PROVIDER id. Each returns null when
+// its configuration (e.g. an API key) is absent.
+const PROVIDER_FACTORIES: Record<string, () => WeatherProvider | null> = {
+  'openweathermap': createOpenWeatherMapProvider,
+  'open-meteo': createOpenMeteoProvider,
+};
+
+/**
+ * The weather provider selected in the config file or by WEATHER_PROVIDER
+ * Defaults to OpenWeatherMap when an API key is set and to keyless Open-Meteo otherwise
+ */
+export function getWeatherProvider(configuredId?: string): WeatherProvider {
+  const providerId = (configuredId || process.env.WEATHER_PROVIDER)?.trim().toLowerCase();
+
+  if (!providerId) {
+    return createOpenWeatherMapProvider() || createOpenMeteoProvider();
+  }
+
+  const createProvider = PROVIDER_FACTORIES[providerId];
+  if (!createProvider) {
+    throw new ConfigurationError(
+      `Unknown WEATHER_PROVIDER "${providerId}" (expected ${Object.keys(PROVIDER_FACTORIES).join(' or ')})`
+    );
+  }
+
+  const provider = createProvider();
+  if (!provider) {
+    throw new ConfigurationError(`Missing ${providerId} configuration`);
+  }
+
+  return provider;
+}
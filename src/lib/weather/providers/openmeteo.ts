@@ -0,0 +1,228 @@
+import { z } from 'zod';
+import type { AirQualityConditions, PollenType, WeatherLocation, WeatherProvider, ProviderWeather } from '../types';
+import { parsePayload } from '@/types/schema';
+import { getWmoCondition } from '@/utils/weatherIcons';
+
+// Open-Meteo forecast and air quality APIs (https://open-meteo.com/en/docs)
+// Free for non-commercial use and needs no API key
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const AIR_QUALITY_URL = 'https://air-quality-api.open-meteo.com/v1/air-quality';
+
+const OpenMeteoForecastSchema = z.object({
+  current: z.object({
+    time: z.number(),
+    temperature_2m: z.number(),
+    apparent_temperature: z.number(),
+    relative_humidity_2m: z.number(),
+    wind_speed_10m: z.number(),
+    wind_direction_10m: z.number().nullable(),
+    uv_index: z.number().nullable(),
+    weather_code: z.number(),
+    is_day: z.number(),
+  }),
+  minutely_15: z.object({
+    time: z.array(z.number()),
+    precipitation: z.array(z.number().nullable()), // mm over the 15 minutes before each time
+  }),
+  hourly: z.object({
+    time: z.array(z.number()),
+    temperature_2m: z.array(z.number()),
+    apparent_temperature: z.array(z.number()),
+    precipitation: z.array(z.number().nullable()),
+    precipitation_probability: z.array(z.number().nullable()),
+    weather_code: z.array(z.number()),
+    is_day: z.array(z.number()),
+  }),
+  daily: z.object({
+    time: z.array(z.number()).min(2),
+    weather_code: z.array(z.number()),
+    temperature_2m_max: z.array(z.number()),
+    temperature_2m_min: z.array(z.number()),
+    precipitation_sum: z.array(z.number().nullable()),
+    rain_sum: z.array(z.number().nullable()),
+    showers_sum: z.array(z.number().nullable()),
+    precipitation_probability_max: z.array(z.number().nullable()),
+    uv_index_max: z.array(z.number().nullable()),
+    wind_speed_10m_max: z.array(z.number().nullable()),
+    wind_gusts_10m_max: z.array(z.number().nullable()),
+    sunrise: z.array(z.number()),
+    sunset: z.array(z.number()),
+  }),
+});
+
+const POLLEN_TYPES: PollenType[] = ['alder', 'birch', 'grass', 'mugwort', 'olive', 'ragweed'];
+
+const AIR_QUALITY_VARIABLES = 'pm2_5,pm10,ozone,nitrogen_dioxide';
+
+const OpenMeteoAirQualitySchema = z.object({
+  current: z.object({
+    time: z.number(),
+    european_aqi: z.number().nullable(),
+    pm2_5: z.number().nullable(),
+    pm10: z.number().nullable(),
+    ozone: z.number().nullable(),
+    nitrogen_dioxide: z.number().nullable(),
+    // Only in Europe, during the season; null elsewhere
+    alder_pollen: z.number().nullable(),
+    birch_pollen: z.number().nullable(),
+    grass_pollen: z.number().nullable(),
+    mugwort_pollen: z.number().nullable(),
+    olive_pollen: z.number().nullable(),
+    ragweed_pollen: z.number().nullable(),
+  }),
+  hourly: z.object({
+    time: z.array(z.number()),
+    pm2_5: z.array(z.number().nullable()),
+    pm10: z.array(z.number().nullable()),
+    ozone: z.array(z.number().nullable()),
+    nitrogen_dioxide: z.array(z.number().nullable()),
+  }),
+});
+
+// European AQI (0-100+) to the 1-5 scale used by OpenWeatherMap
+// 0-20 good, 20-40 fair, 40-60 moderate, 60-80 poor, 80+ very poor
+function toAqiLevel(europeanAqi: number): number {
+  return Math.min(5, Math.max(1, Math.ceil(europeanAqi / 20)));
+}
+
+async function fetchAirQuality(lat: string, lon: string): Promise<AirQualityConditions | null> {
+  try {
+    const params = new URLSearchParams({
+      latitude: lat,
+      longitude: lon,
+      current: `european_aqi,${AIR_QUALITY_VARIABLES},${POLLEN_TYPES.map((type) => `${type}_pollen`).join(',')}`,
+      hourly: AIR_QUALITY_VARIABLES,
+      timeformat: 'unixtime',
+      forecast_days: '4',
+    });
+    const response = await fetch(`${AIR_QUALITY_URL}?${params}`);
+    if (!response.ok) {
+      return null;
+    }
+    const { current, hourly } = parsePayload(OpenMeteoAirQualitySchema, await response.json(), 'Open-Meteo air quality');
+    const pollen: AirQualityConditions['pollen'] = {};
+    for (const type of POLLEN_TYPES) {
+      const value = current[`${type}_pollen`];
+      if (value !== null) {
+        pollen[type] = value;
+      }
+    }
+
+    const currentHour = Math.floor(current.time / 3600) * 3600;
+    return {
+      level: current.european_aqi !== null ? toAqiLevel(current.european_aqi) : null,
+      pollutants: {
+        pm2_5: current.pm2_5 ?? 0,
+        pm10: current.pm10 ?? 0,
+        o3: current.ozone ?? 0,
+        no2: current.nitrogen_dioxide ?? 0,
+      },
+      // Hourly data starts at midnight; keep the hours from the current one
+      forecast: hourly.time.flatMap((time, i) => time < currentHour ? [] : [{
+        time: new Date(time * 1000),
+        pollutants: {
+          pm2_5: hourly.pm2_5[i] ?? 0,
+          pm10: hourly.pm10[i] ?? 0,
+          o3: hourly.ozone[i] ?? 0,
+          no2: hourly.nitrogen_dioxide[i] ?? 0,
+        },
+      }]),
+      pollen,
+    };
+  } catch (error) {
+    console.error('Air quality fetch error:', error);
+    return null;
+  }
+}
+
+async function fetchWeather({ lat, lon, name }: WeatherLocation): Promise<ProviderWeather> {
+  const params = new URLSearchParams({
+    latitude: lat,
+    longitude: lon,
+    current: 'temperature_2m,apparent_temperature,relative_humidity_2m,wind_speed_10m,wind_direction_10m,uv_index,weather_code,is_day',
+    // Measured in central Europe and North America, interpolated from hourly data elsewhere
+    minutely_15: 'precipitation',
+    forecast_minutely_15: '8',
+    hourly: 'temperature_2m,apparent_temperature,precipitation,precipitation_probability,weather_code,is_day',
+    daily: 'weather_code,temperature_2m_max,temperature_2m_min,precipitation_sum,rain_sum,showers_sum,precipitation_probability_max,uv_index_max,wind_speed_10m_max,wind_gusts_10m_max,sunrise,sunset',
+    wind_speed_unit: 'ms',
+    timeformat: 'unixtime',
+    // Days are split at the location's midnight
+    timezone: 'auto',
+    forecast_days: '8',
+  });
+
+  const [response, airQuality] = await Promise.all([
+    fetch(`${FORECAST_URL}?${params}`),
+    fetchAirQuality(lat, lon),
+  ]);
+
+  if (!response.ok) {
+    throw new Error(`Open-Meteo request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const data = parsePayload(OpenMeteoForecastSchema, await response.json(), 'Open-Meteo forecast');
+  const { current, minutely_15: minutely, hourly, daily } = data;
+
+  // Hourly data starts at midnight; drop the hours that have already passed
+  const currentHour = Math.floor(current.time / 3600) * 3600;
+  const firstHour = Math.max(0, hourly.time.findIndex((time) => time >= currentHour));
+
+  return {
+    current: {
+      temp: current.temperature_2m,
+      feelsLike: current.apparent_temperature,
+      humidity: current.relative_humidity_2m,
+      windSpeed: current.wind_speed_10m,
+      windDeg: current.wind_direction_10m || 0,
+      uvIndex: current.uv_index || 0,
+      condition: getWmoCondition(current.weather_code, current.is_day === 1),
+    },
+    // Quarter hours from the current one; rates in mm/h like OpenWeatherMap's
+    minutely: minutely.time
+      .map((time, i) => ({ time: new Date((time - 15 * 60) * 1000), intensity: (minutely.precipitation[i] || 0) * 4 }))
+      .filter(({ time }) => time.getTime() / 1000 + 15 * 60 > current.time),
+    hourly: hourly.time.slice(firstHour).map((time, offset) => {
+      const i = firstHour + offset;
+      return {
+        time: new Date(time * 1000),
+        temp: hourly.temperature_2m[i],
+        feelsLike: hourly.apparent_temperature[i],
+        pop: (hourly.precipitation_probability[i] || 0) / 100,
+        precipitation: hourly.precipitation[i] || 0,
+        condition: getWmoCondition(hourly.weather_code[i], hourly.is_day[i] === 1),
+      };
+    }),
+    daily: daily.time.map((time, i) => ({
+      // Daily times are local midnight; use midday like OpenWeatherMap so the
+      // weekday is right in any nearby dashboard time zone
+      time: new Date((time + 12 * 3600) * 1000),
+      // Open-Meteo has no daytime temperature; the maximum is the closest match
+      temp: daily.temperature_2m_max[i],
+      tempMin: daily.temperature_2m_min[i],
+      tempMax: daily.temperature_2m_max[i],
+      pop: (daily.precipitation_probability_max[i] || 0) / 100,
+      precipitation: daily.precipitation_sum[i] || 0,
+      // snowfall_sum is in cm of snow; what isn't rain or showers is the snow's water
+      snow: Math.max(0, (daily.precipitation_sum[i] || 0) - (daily.rain_sum[i] || 0) - (daily.showers_sum[i] || 0)),
+      windSpeed: daily.wind_speed_10m_max[i] || 0,
+      windGust: daily.wind_gusts_10m_max[i] ?? null,
+      uvIndex: daily.uv_index_max[i] || 0,
+      sunrise: new Date(daily.sunrise[i] * 1000),
+      sunset: new Date(daily.sunset[i] * 1000),
+      condition: getWmoCondition(daily.weather_code[i], true),
+    })),
+    airQuality,
+    // Open-Meteo has no alerts; enable a government feed for them
+    alerts: [],
+    location: name || '',
+  };
+}
+
+export function createOpenMeteoProvider(): WeatherProvider {
+  return {
+    id: 'open-meteo',
+    fetchWeather,
+  };
+}
@@ -0,0 +1,215 @@
+import type { AirQualityConditions, WeatherAlert, WeatherCondition, WeatherLocation, WeatherProvider, ProviderWeather } from '../types';
+import { z } from 'zod';
+import { inferSeverity } from '../alerts/severity';
+import { parsePayload } from '@/types/schema';
+
+// OpenWeatherMap One Call API (https://openweathermap.org/api/one-call-3)
+// Requires OPENWEATHERMAP_API_KEY
+
+// Only the fields the dashboard uses are validated; anything else is ignored
+
+const OwmWeatherSchema = z.object({
+  id: z.number(),
+  main: z.string(),
+  icon: z.string(),
+});
+
+type OwmWeather = z.infer<typeof OwmWeatherSchema>;
+
+const OwmOneCallSchema = z.object({
+  current: z.object({
+    temp: z.number(),
+    feels_like: z.number(),
+    humidity: z.number(),
+    wind_speed: z.number(),
+    wind_deg: z.number().optional(),
+    uvi: z.number(),
+    weather: z.array(OwmWeatherSchema).min(1),
+  }),
+  // Only for locations OpenWeatherMap has precipitation radar for
+  minutely: z.array(z.object({
+    dt: z.number(),
+    precipitation: z.number(), // mm/h
+  })).optional(),
+  hourly: z.array(z.object({
+    dt: z.number(),
+    temp: z.number(),
+    feels_like: z.number(),
+    pop: z.number().optional(),
+    rain: z.object({ '1h': z.number() }).optional(),
+    snow: z.object({ '1h': z.number() }).optional(),
+    weather: z.array(OwmWeatherSchema).min(1),
+  })).min(7),
+  daily: z.array(z.object({
+    dt: z.number(),
+    sunrise: z.number(),
+    sunset: z.number(),
+    temp: z.object({ day: z.number(), min: z.number(), max: z.number() }),
+    pop: z.number().optional(),
+    rain: z.number().optional(),
+    snow: z.number().optional(),
+    wind_speed: z.number(),
+    wind_gust: z.number().optional(),
+    uvi: z.number().optional(),
+    weather: z.array(OwmWeatherSchema).min(1),
+  })).min(2),
+  // Only present while alerts are in effect
+  alerts: z.array(z.object({
+    sender_name: z.string(),
+    event: z.string(),
+    start: z.number(),
+    end: z.number(),
+    description: z.string(),
+  })).optional(),
+});
+
+type OwmOneCall = z.infer<typeof OwmOneCallSchema>;
+
+const OwmCurrentWeatherSchema = z.object({
+  name: z.string().optional(),
+});
+
+// Current conditions (one item) and the hourly forecast for the next 4 days
+const OwmAirPollutionSchema = z.object({
+  list: z.array(z.object({
+    dt: z.number(),
+    main: z.object({ aqi: z.number() }), // 1-5
+    components: z.object({
+      pm2_5: z.number(),
+      pm10: z.number(),
+      o3: z.number(),
+      no2: z.number(),
+    }),
+  })).min(1),
+});
+
+function toCondition(weather: OwmWeather): WeatherCondition {
+  return { weatherId: weather.id, icon: weather.icon, description: weather.main };
+}
+
+// One Call alerts have no severity or headline; derive them from the event name
+function toAlerts(alerts: OwmOneCall['alerts']): WeatherAlert[] {
+  return (alerts || []).map((alert) => ({
+    id: `owm-${alert.start}-${alert.event}`,
+    source: alert.sender_name,
+    event: alert.event,
+    headline: alert.event,
+    severity: inferSeverity(alert.event),
+    description: alert.description,
+    start: new Date(alert.start * 1000),
+    expires: new Date(alert.end * 1000),
+  }));
+}
+
+async function fetchAirPollution(url: string, source: string) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${source} request failed: ${response.status} ${response.statusText}`);
+  }
+  return parsePayload(OwmAirPollutionSchema, await response.json(), source);
+}
+
+// Air quality is optional; the forecast is shown without it
+async function fetchAirQuality(lat: string, lon: string, apiKey: string): Promise<AirQualityConditions | null> {
+  try {
+    const query = `lat=${lat}&lon=${lon}&appid=${apiKey}`;
+    const [current, forecast] = await Promise.all([
+      fetchAirPollution(`https://api.openweathermap.org/data/2.5/air_pollution?${query}`, 'OpenWeatherMap air pollution'),
+      fetchAirPollution(`https://api.openweathermap.org/data/2.5/air_pollution/forecast?${query}`, 'OpenWeatherMap air pollution forecast'),
+    ]);
+
+    // Components are parsed down to the pollutants the indices use
+    return {
+      level: current.list[0].main.aqi,
+      pollutants: current.list[0].components,
+      forecast: forecast.list.map((item) => ({ time: new Date(item.dt * 1000), pollutants: item.components })),
+      // OpenWeatherMap has no pollen data
+      pollen: {},
+    };
+  } catch (error) {
+    console.error('Air quality fetch error:', error);
+    return null;
+  }
+}
+
+async function fetchWeather({ lat, lon, name }: WeatherLocation, apiKey: string): Promise<ProviderWeather> {
+  // Try One Call API 2.5 first (still free for some users)
+  let oneCallUrl = `https://api.openweathermap.org/data/2.5/onecall?lat=${lat}&lon=${lon}&appid=${apiKey}&units=metric`;
+  let oneCallResponse = await fetch(oneCallUrl);
+
+  // If 2.5 fails, try 3.0 (requires subscription)
+  if (!oneCallResponse.ok) {
+    oneCallUrl = `https://api.openweathermap.org/data/3.0/onecall?lat=${lat}&lon=${lon}&appid=${apiKey}&units=metric`;
+    oneCallResponse = await fetch(oneCallUrl);
+  }
+
+  if (!oneCallResponse.ok) {
+    throw new Error('Failed to fetch One Call API data. This may require a paid subscription.');
+  }
+
+  const oneCallData = parsePayload(OwmOneCallSchema, await oneCallResponse.json(), 'OpenWeatherMap One Call');
+
+  // Fetch current weather for location name (One Call doesn't provide it)
+  const currentWeatherUrl = `https://api.openweathermap.org/data/2.5/weather?lat=${lat}&lon=${lon}&appid=${apiKey}&units=metric`;
+  const [currentWeatherResponse, airQuality] = await Promise.all([
+    fetch(currentWeatherUrl),
+    fetchAirQuality(lat, lon, apiKey),
+  ]);
+  const currentWeather = parsePayload(OwmCurrentWeatherSchema, await currentWeatherResponse.json(), 'OpenWeatherMap current weather');
+
+  const current = oneCallData.current;
+
+  return {
+    current: {
+      temp: current.temp,
+      feelsLike: current.feels_like,
+      humidity: current.humidity,
+      windSpeed: current.wind_speed,
+      windDeg: current.wind_deg || 0,
+      uvIndex: current.uvi,
+      condition: toCondition(current.weather[0]),
+    },
+    minutely: oneCallData.minutely?.map((item) => ({
+      time: new Date(item.dt * 1000),
+      intensity: item.precipitation,
+    })) ?? null,
+    hourly: oneCallData.hourly.map((item) => ({
+      time: new Date(item.dt * 1000),
+      temp: item.temp,
+      feelsLike: item.feels_like,
+      pop: item.pop || 0,
+      precipitation: (item.rain?.['1h'] || 0) + (item.snow?.['1h'] || 0),
+      condition: toCondition(item.weather[0]),
+    })),
+    daily: oneCallData.daily.map((item) => ({
+      time: new Date(item.dt * 1000),
+      temp: item.temp.day,
+      tempMin: item.temp.min,
+      tempMax: item.temp.max,
+      pop: item.pop || 0,
+      precipitation: (item.rain || 0) + (item.snow || 0),
+      snow: item.snow || 0,
+      windSpeed: item.wind_speed,
+      windGust: item.wind_gust ?? null,
+      uvIndex: item.uvi || 0,
+      sunrise: new Date(item.sunrise * 1000),
+      sunset: new Date(item.sunset * 1000),
+      condition: toCondition(item.weather[0]),
+    })),
+    airQuality,
+    alerts: toAlerts(oneCallData.alerts),
+    location: currentWeather.name || name || '',
+  };
+}
+
+export function createOpenWeatherMapProvider(): WeatherProvider | null {
+  const apiKey = process.env.OPENWEATHERMAP_API_KEY;
+  if (!apiKey) {
+    return null;
+  }
+
+  return {
+    id: 'openweathermap',
+    fetchWeather: (location) => fetchWeather(location, apiKey),
+  };
+}
@@ -0,0 +1,129 @@
+// Provider-neutral weather model. Every provider maps its upstream response to
+// these types (metric units) and the payload sent to tablets is built from them.
+
+export interface WeatherLocation {
+  lat: string;
+  lon: string;
+  // Display name; providers without reverse geocoding use it as the location label
+  name?: string;
+  // Environment Canada alert feeds covering the location; feeds are per region,
+  // so a location without its own gets none
+  environmentCanadaAlerts?: string[];
+  // Load US National Weather Service alerts; the service only covers the US
+  nwsAlerts?: boolean;
+}
+
+// Condition expressed as an OpenWeatherMap condition (ID + icon code), which the
+// icon mapping in utils/weatherIcons.ts understands
+export interface WeatherCondition {
+  weatherId: number;
+  icon: string; // e.g. "10d"
+  description: string; // Short group name, e.g. "Rain"
+}
+
+export interface CurrentConditions {
+  temp: number; // °C
+  feelsLike: number; // °C
+  humidity: number; // %
+  windSpeed: number; // m/s
+  windDeg: number;
+  uvIndex: number;
+  condition: WeatherCondition;
+}
+
+export interface HourlyConditions {
+  time: Date; // Start of the hour
+  temp: number; // °C
+  feelsLike: number; // °C
+  pop: number; // Probability of precipitation, 0-1
+  precipitation: number; // Rain + snow over the hour, mm
+  condition: WeatherCondition;
+}
+
+// Precipitation rate over a short interval, for the nowcast
+export interface MinutelyPrecipitation {
+  time: Date; // Start of the interval
+  intensity: number; // mm/h
+}
+
+export interface DailyConditions {
+  time: Date; // Around midday of the day
+  temp: number; // Daytime temperature, °C
+  tempMin: number;
+  tempMax: number;
+  pop: number; // 0-1
+  precipitation: number; // Rain + snow, mm
+  snow: number; // Part of the precipitation falling as snow, mm of water
+  windSpeed: number; // Daily maximum, m/s
+  windGust: number | null; // m/s
+  uvIndex: number; // Daily maximum
+  sunrise: Date;
+  sunset: Date;
+  condition: WeatherCondition;
+}
+
+// Concentrations of the pollutants air quality indices are computed from, µg/m³
+export interface Pollutants {
+  pm2_5: number;
+  pm10: number;
+  o3: number;
+  no2: number;
+}
+
+export interface AirQualitySample {
+  time: Date; // Start of the hour
+  pollutants: Pollutants;
+}
+
+export type PollenType = 'alder' | 'birch' | 'grass' | 'mugwort' | 'olive' | 'ragweed';
+
+export interface AirQualityConditions {
+  // 1 (good) to 5 (very poor) on the provider's own scale, null when it has none
+  level: number | null;
+  pollutants: Pollutants;
+  // Hourly, from the current hour over the next few days
+  forecast: AirQualitySample[];
+  // Grains/m³ by type, for the types the provider reports at the location
+  pollen: Partial<Record<PollenType, number>>;
+}
+
+export type AlertSeverity = 'extreme' | 'severe' | 'moderate' | 'minor' | 'unknown';
+
+// Official weather alert (warning, watch, advisory...) normalized across sources
+export interface WeatherAlert {
+  id: string;
+  source: string; // Issuing agency, e.g. "Environment Canada"
+  event: string; // e.g. "Rainfall warning"
+  headline: string;
+  severity: AlertSeverity;
+  description: string;
+  start: Date | null;
+  expires: Date | null;
+  url?: string;
+}
+
+export interface ProviderWeather {
+  current: CurrentConditions;
+  // Starts with the current hour
+  hourly: HourlyConditions[];
+  // Next hour or more from the current minute, null where the provider has no nowcast
+  minutely: MinutelyPrecipitation[] | null;
+  // Starts with today
+  daily: DailyConditions[];
+  // null when unavailable
+  airQuality: AirQualityConditions | null;
+  // Alerts issued for the location, when the provider includes them
+  alerts: WeatherAlert[];
+  location: string;
+}
+
+export interface WeatherProvider {
+  id: string;
+  fetchWeather(location: WeatherLocation): Promise<ProviderWeather>;
+}
+
+// Government alert feed used in addition to (or instead of) the provider's alerts
+export interface AlertSource {
+  id: string;
+  fetchAlerts(location: WeatherLocation): Promise<WeatherAlert[]>;
+}
@@ -1,55 +1,43 @@
-// Weather types
-export interface WeatherCurrent {
-  temp: number;
-  high: number;
-  low: number;
-  description: string;
-  icon: string;
-  humidity: number;
-  windSpeed: number;
-  feelsLike: number;
-}
-
-export interface WeatherForecast {
-  date: Date;
-  temp: number;
-  description: string;
-  icon: string;
-}
+import type { UnitSettings } from './schema';
 
-export interface WeatherData {
-  current: WeatherCurrent;
-  forecast: WeatherForecast[];
-  location: string;
-}
+// API payload types are inferred from the runtime schemas
+export type {
+  WeatherAlert,
+  WeatherData,
+  UnitSettings,
+  CalendarEvent,
+  CalendarInfo,
+  CalendarData,
+  NightMode,
+  NightModeState,
+  HomeAssistantEntity,
+  DashboardMessage,
+  HomeAssistantData,
+  DashboardCard,
+  WidgetPlacement,
+  DashboardLayout,
+  ApiError,
+} from './schema';
 
-// Calendar types
-export interface CalendarEvent {
-  id: string;
-  title: string;
-  start: string;
-  end: string;
-  allDay: boolean;
-  location?: string;
-  description?: string;
-  colorId?: string;
-}
+// Colour for LCD tablets; black and white or 16-level grayscale for e-ink panels
+export type DisplayTheme = 'color' | 'eink' | 'eink-grayscale';
 
-export interface CalendarData {
-  events: CalendarEvent[];
-  weekStart: string;
-  weekEnd: string;
-}
+// Preset units: metric, US customary, or the UK's mix (°C with mph and mm)
+export type UnitSystem = 'metric' | 'imperial' | 'uk';
 
-// Component props
-export interface WeatherProps {
-  data: WeatherData | null;
-  loading: boolean;
-  error: string | null;
+// Display settings (time zone, locale, clock format, theme, units)
+export interface DisplaySettings {
+  timeZone: string; // IANA zone, e.g. America/Toronto
+  locale: string; // BCP 47 tag, e.g. en-US
+  hour12: boolean;
+  weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0 = Sunday
+  theme: DisplayTheme;
+  units: UnitSettings;
 }
 
-export interface CalendarProps {
-  data: CalendarData | null;
-  loading: boolean;
-  error: string | null;
+// Fallback polling intervals used by the tablet while the live stream is down
+export interface RefreshSettings {
+  weatherPollMs: number;
+  calendarPollMs: number;
+  homeAssistantPollMs: number;
 }
@@ -0,0 +1,347 @@
+// API contract shared by the routes and the client components
+// Each schema validates a payload at runtime and its inferred type is used on
+// both sides, so the shapes can't drift apart.
+
+import { z } from 'zod';
+import { PayloadValidationError } from '@/lib/errors';
+
+// Weather (/api/weather and the "weather" stream event)
+
+const ConditionFields = {
+  icon: z.string(), // OpenWeatherMap icon code, e.g. "10d"
+  weatherId: z.number(), // OpenWeatherMap condition ID
+};
+
+export const WeatherAlertSchema = z.object({
+  id: z.string(),
+  source: z.string(),
+  event: z.string(),
+  headline: z.string(),
+  severity: z.enum(['extreme', 'severe', 'moderate', 'minor', 'unknown']),
+  description: z.string(),
+  start: z.string().nullable(), // ISO timestamp
+  expires: z.string().nullable(),
+  url: z.string().nullable(),
+});
+
+// Units weather values are converted to, by quantity
+export const UnitSettingsSchema = z.object({
+  temperature: z.enum(['celsius', 'fahrenheit']),
+  speed: z.enum(['kmh', 'ms', 'mph']),
+  precipitation: z.enum(['mm', 'cm', 'in']),
+});
+
+const AirQualityLevelFields = {
+  value: z.number(),
+  display: z.string(), // e.g. "42", or "10+" on the AQHI
+  level: z.number(), // 1 (best) upwards, for colouring
+  category: z.string(), // e.g. "Moderate"
+};
+
+// A day's sun times as ISO timestamps; twilight is null when the sun doesn't
+// get that far below the horizon (summer near the poles)
+const SunDaySchema = z.object({
+  sunrise: z.string(),
+  sunset: z.string(),
+  civilDawn: z.string().nullable(),
+  civilDusk: z.string().nullable(),
+  solarNoon: z.string(),
+  dayLength: z.number(), // Seconds of daylight
+  dayLengthChange: z.number(), // Seconds more (or fewer) than the day before
+});
+
+export const WeatherDataSchema = z.object({
+  current: z.object({
+    ...ConditionFields,
+    temp: z.number(),
+    high: z.number(),
+    low: z.number(),
+    description: z.string(),
+    humidity: z.number(),
+    windSpeed: z.number(), // In units.speed
+    windDeg: z.number(),
+    feelsLike: z.number(),
+    uvIndex: z.number().nullable(),
+    peakUV: z.number().nullable(),
+    peakUVTime: z.string().nullable(),
+    aqi: z.number().nullable(), // 1-5
+    precipitationToday: z.number(), // In units.precipitation
+    nextSunEvent: z.object({
+      type: z.enum(['sunrise', 'sunset']),
+      time: z.string(), // Formatted in the dashboard zone
+      at: z.string(), // ISO timestamp
+    }),
+  }),
+  // Precipitation over the next hour; null when the provider has no minutely data there
+  nowcast: z.object({
+    type: z.enum(['rain', 'snow']),
+    precipitating: z.boolean(), // At the time the forecast was fetched
+    intensity: z.enum(['light', 'moderate', 'heavy']).nullable(), // Of the current or next spell; null when dry throughout
+    changeAt: z.string().nullable(), // ISO timestamp it starts or stops; null when it doesn't within the hour
+    until: z.string(), // ISO timestamp the nowcast covers up to
+  }).nullable(),
+  // Air quality on the configured scale; null when the provider has none
+  airQuality: z.object({
+    index: z.object({
+      ...AirQualityLevelFields,
+      scale: z.enum(['us', 'aqhi']),
+      levels: z.number(), // Number of levels on the scale
+      guidance: z.string(), // Health advice for the category
+      dominant: z.enum(['pm2_5', 'pm10', 'o3', 'no2']).nullable(), // Pollutant setting the US AQI
+    }),
+    pollutants: z.object({ // µg/m³
+      pm2_5: z.number(),
+      pm10: z.number(),
+      o3: z.number(),
+      no2: z.number(),
+    }),
+    // Worst hour of each of the next days
+    forecast: z.array(z.object({
+      ...AirQualityLevelFields,
+      date: z.string(), // ISO timestamp within the day
+    })),
+    // Empty where the provider has no pollen data
+    pollen: z.array(z.object({
+      type: z.enum(['alder', 'birch', 'grass', 'mugwort', 'olive', 'ragweed']),
+      value: z.number(), // Grains/m³
+      level: z.enum(['none', 'low', 'moderate', 'high']),
+    })),
+  }).nullable(),
+  // Up to 48 hours from the current hour
+  hourly: z.array(z.object({
+    ...ConditionFields,
+    time: z.string(), // ISO timestamp of the start of the hour
+    temp: z.number(),
+    feelsLike: z.number(),
+    pop: z.number(), // %
+    precipitation: z.number(), // In units.precipitation
+  })),
+  forecast: z.array(z.object({
+    ...ConditionFields,
+    date: z.string(), // ISO timestamp around midday
+    temp: z.number(), // Daytime
+    high: z.number(),
+    low: z.number(),
+    description: z.string(),
+    pop: z.number(),
+    precipitation: z.number(), // In units.precipitation
+    precipitationType: z.enum(['rain', 'snow', 'mixed']).nullable(), // null when dry
+    windSpeed: z.number(), // Daily maximum, in units.speed
+    windGust: z.number().nullable(),
+    uvIndex: z.number(), // Daily maximum
+    sunrise: z.string(), // ISO timestamp
+    sunset: z.string(),
+  })),
+  sun: z.object({
+    today: SunDaySchema,
+    tomorrow: SunDaySchema,
+  }),
+  // Calculated locally for the dashboard's day
+  moon: z.object({
+    phase: z.number(), // 0 = new, 0.5 = full
+    illumination: z.number(), // % of the disc lit
+    name: z.string(),
+    icon: z.string(), // weather-icons glyph, e.g. "moon-alt-waxing-crescent-3"
+    rise: z.string().nullable(), // ISO timestamp; null when the moon doesn't rise that day
+    set: z.string().nullable(),
+    nextFull: z.string(),
+    nextNew: z.string(),
+  }),
+  alerts: z.array(WeatherAlertSchema),
+  location: z.string(),
+  // Named locations for the locations card, in config order; empty when the
+  // dashboard doesn't show it and for ?location= requests
+  locations: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    // null when the location's weather couldn't be loaded
+    current: z.object({
+      ...ConditionFields,
+      temp: z.number(),
+      high: z.number(),
+      low: z.number(),
+      description: z.string(),
+    }).nullable(),
+    stale: z.boolean(),
+  })),
+  units: UnitSettingsSchema, // Of every temperature, speed and precipitation value above
+  fetchedAt: z.string(),
+  // True when the upstream failed and this is the last good payload
+  stale: z.boolean(),
+});
+
+// Calendar (/api/calendar and the "calendar" stream event)
+
+export const CalendarEventSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  start: z.string(), // ISO timestamp, or YYYY-MM-DD for all-day events
+  end: z.string(),
+  allDay: z.boolean(),
+  location: z.string().optional(),
+  description: z.string().optional(),
+  colorId: z.string().optional(),
+  calendarId: z.string(), // Id of the configured calendar the event came from
+});
+
+// Display details of a configured calendar, from the dashboard config
+export const CalendarInfoSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  color: z.string(), // Border / accent
+  textColor: z.string(),
+  backgroundColor: z.string(),
+  // Higher priority calendars are listed first
+  priority: z.number(),
+});
+
+export const CalendarDataSchema = z.object({
+  calendars: z.array(CalendarInfoSchema),
+  events: z.array(CalendarEventSchema),
+  weekStart: z.string(),
+  weekEnd: z.string(),
+});
+
+// Night mode (/api/night-mode and the "nightMode" stream event)
+
+// off, or the dimmed red theme, or the nearly black one for bedtime
+export const NightModeSchema = z.enum(['off', 'dim', 'dark']);
+
+export const NightModeStateSchema = z.object({
+  mode: NightModeSchema,
+  // Set by the schedule, or forced through POST /api/night-mode
+  source: z.enum(['schedule', 'override']),
+  until: z.string().nullable(), // ISO timestamp of the next change, if one is due
+});
+
+// Home Assistant (/api/home-assistant and the "homeAssistant" stream event)
+
+export const HomeAssistantEntitySchema = z.object({
+  entityId: z.string(), // e.g. lock.front_door
+  label: z.string(),
+  domain: z.string(), // lock, climate, sensor, ...
+  state: z.string(), // Raw state, e.g. "locked" or "21.5"
+  display: z.string(), // Formatted for the card, e.g. "Locked" or "21.5 °C"
+  detail: z.string().nullable(), // e.g. "Heating to 21 °C" for a thermostat
+  available: z.boolean(),
+  lastChanged: z.string().nullable(),
+});
+
+// Pushed by Home Assistant through the webhook, shown over the dashboard until it expires
+export const DashboardMessageSchema = z.object({
+  id: z.string(),
+  title: z.string().nullable(),
+  text: z.string(),
+  level: z.enum(['info', 'warning', 'alert']),
+  created: z.string(),
+  expires: z.string().nullable(),
+});
+
+export const HomeAssistantDataSchema = z.object({
+  entities: z.array(HomeAssistantEntitySchema),
+  messages: z.array(DashboardMessageSchema),
+  // Why the entities couldn't be loaded (they show as unavailable); messages arrive regardless
+  error: z.string().nullable(),
+});
+
+// Dashboard layout
+
+// Cards a profile can show; all of them when a profile doesn't choose
+export const DashboardCardSchema = z.enum([
+  'clock', 'date', 'alerts', 'current', 'details', 'hourly', 'forecast', 'calendar', 'tomorrow', 'home', 'daylight', 'moon', 'air', 'locations',
+]);
+
+// CSS grid track size: "1fr", "2.5fr", "420px", "30%" or "auto" (sized by the card's content)
+const GridTrackSchema = z.string().regex(
+  /^(auto|\d+(\.\d+)?(fr|px|%))$/,
+  'Expected a track size such as 1fr, 420px, 30% or auto'
+);
+
+// Where a card sits on the layout grid; lines are 1-based like CSS grid
+export const WidgetPlacementSchema = z.strictObject({
+  widget: DashboardCardSchema,
+  column: z.number().int().min(1),
+  row: z.number().int().min(1),
+  columnSpan: z.number().int().min(1).default(1),
+  rowSpan: z.number().int().min(1).default(1),
+});
+
+export const DashboardLayoutSchema = z.strictObject({
+  columns: z.array(GridTrackSchema).min(1),
+  rows: z.array(GridTrackSchema).min(1),
+  gap: z.number().min(0).default(16), // px
+  widgets: z.array(WidgetPlacementSchema).min(1),
+});
+
+// Error body returned by every route with a non-2xx status
+export const ApiErrorSchema = z.object({
+  error: z.string(),
+});
+
+export type WeatherAlert = z.infer<typeof WeatherAlertSchema>;
+export type WeatherData = z.infer<typeof WeatherDataSchema>;
+export type UnitSettings = z.infer<typeof UnitSettingsSchema>;
+export type CalendarEvent = z.infer<typeof CalendarEventSchema>;
+export type CalendarInfo = z.infer<typeof CalendarInfoSchema>;
+export type CalendarData = z.infer<typeof CalendarDataSchema>;
+export type NightMode = z.infer<typeof NightModeSchema>;
+export type NightModeState = z.infer<typeof NightModeStateSchema>;
+export type HomeAssistantEntity = z.infer<typeof HomeAssistantEntitySchema>;
+export type DashboardMessage = z.infer<typeof DashboardMessageSchema>;
+export type HomeAssistantData = z.infer<typeof HomeAssistantDataSchema>;
+export type DashboardCard = z.infer<typeof DashboardCardSchema>;
+export type WidgetPlacement = z.infer<typeof WidgetPlacementSchema>;
+export type DashboardLayout = z.infer<typeof DashboardLayoutSchema>;
+export type ApiError = z.infer<typeof ApiErrorSchema>;
+
+/**
+ * Summarize validation issues as "path: message" pairs for error messages
+ */
+export function formatValidationIssues(error: z.ZodError, maxIssues = 3): string {
+  const issues = error.issues.slice(0, maxIssues).map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+    return `${path}: ${issue.message}`;
+  });
+  const more = error.issues.length - issues.length;
+  return issues.join('; ') + (more > 0 ? ` (+${more} more)` : '');
+}
+
+/**
+ * Validate a payload against a schema
+ * @param schema - Expected shape
+ * @param data - Parsed JSON from an upstream API or route
+ * @param source - Name used in the error message, e.g. "OpenWeatherMap One Call"
+ * @returns The payload typed (and stripped of unknown keys) by the schema
+ * @throws PayloadValidationError listing the first mismatches
+ */
+export function parsePayload<T extends z.ZodType>(schema: T, data: unknown, source: string): z.infer<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new PayloadValidationError(source, formatValidationIssues(result.error));
+  }
+  return result.data;
+}
+
+export type RoutePayloadResult<T> = { data: T; error: null } | { data: null; error: string };
+
+/**
+ * Read a route response or stream event on the client
+ * - An { error } body yields its message
+ * - Anything else must match the schema, otherwise the validation message is returned
+ */
+export function parseRoutePayload<T extends z.ZodType>(
+  schema: T,
+  payload: unknown,
+  source: string
+): RoutePayloadResult<z.infer<T>> {
+  const apiError = ApiErrorSchema.safeParse(payload);
+  if (apiError.success) {
+    return { data: null, error: apiError.data.error };
+  }
+
+  try {
+    return { data: parsePayload(schema, payload, source), error: null };
+  } catch (error) {
+    return { data: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
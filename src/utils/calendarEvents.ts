@@ -0,0 +1,130 @@
+import type { CSSProperties } from 'react';
+import { format, isSameDay, parseISO, differenceInMinutes } from 'date-fns';
+import type { CalendarEvent, CalendarInfo, DisplaySettings, DisplayTheme } from '@/types';
+import { toDashboardTime } from '@/utils/dateTime';
+
+// Helpers shared by the calendar widgets
+
+export interface EventColors {
+  bg: string;
+  border: string;
+  text: string;
+}
+
+// Events whose calendar is no longer configured
+const DEFAULT_COLOR: EventColors = { bg: 'rgba(142, 142, 147, 0.15)', border: '#8e8e93', text: '#8e8e93' };
+
+// Hatching for the left edge of an event on e-ink, where calendar colours all come
+// out as similar grays; one per calendar in order, repeating after the last
+const INK = 'var(--text-primary)';
+const EVENT_PATTERNS: string[][] = [
+  [`linear-gradient(${INK}, ${INK})`],
+  [`repeating-linear-gradient(45deg, ${INK} 0 2px, transparent 2px 6px)`],
+  [`repeating-linear-gradient(0deg, ${INK} 0 2px, transparent 2px 5px)`],
+  [
+    `repeating-linear-gradient(45deg, ${INK} 0 1px, transparent 1px 6px)`,
+    `repeating-linear-gradient(-45deg, ${INK} 0 1px, transparent 1px 6px)`,
+  ],
+  [`repeating-linear-gradient(90deg, ${INK} 0 2px, transparent 2px 4px)`],
+  [`repeating-linear-gradient(-45deg, ${INK} 0 2px, transparent 2px 6px)`],
+  [`repeating-linear-gradient(0deg, ${INK} 0 6px, transparent 6px 10px)`],
+  [`repeating-linear-gradient(45deg, ${INK} 0 1px, transparent 1px 3px)`],
+];
+const PATTERN_WIDTH = 10;
+
+export interface EventStyle {
+  block: CSSProperties; // Background and border of the event block
+  accent: string; // Colour of secondary text such as the start time
+}
+
+// Colours of the calendar an event belongs to
+function getEventColor(event: CalendarEvent, calendars: CalendarInfo[]): EventColors {
+  const calendar = calendars.find(info => info.id === event.calendarId);
+  if (calendar) {
+    return { bg: calendar.backgroundColor, border: calendar.color, text: calendar.textColor };
+  }
+  return DEFAULT_COLOR;
+}
+
+/**
+ * How an event block tells its calendar apart: tinted in the calendar's colours,
+ * or on e-ink, outlined with the calendar's hatching down the left edge
+ * (events whose calendar is no longer configured get no hatching)
+ */
+export function getEventStyle(event: CalendarEvent, calendars: CalendarInfo[], theme: DisplayTheme): EventStyle {
+  if (theme === 'color') {
+    const colors = getEventColor(event, calendars);
+    return {
+      block: { backgroundColor: colors.bg, borderLeft: `3px solid ${colors.border}` },
+      accent: colors.text,
+    };
+  }
+
+  const index = calendars.findIndex(info => info.id === event.calendarId);
+  const pattern = index >= 0 ? EVENT_PATTERNS[index % EVENT_PATTERNS.length] : [];
+  // Confine the pattern to a strip along the left edge
+  const layers = pattern.map(layer => `${layer} left / ${PATTERN_WIDTH}px 100% no-repeat`);
+
+  return {
+    block: {
+      background: [...layers, 'var(--bg-primary)'].join(', '),
+      border: `1px solid ${INK}`,
+      paddingLeft: `${PATTERN_WIDTH + 8}px`,
+    },
+    accent: INK,
+  };
+}
+
+/**
+ * Sort all-day events by their calendar's priority, most important first
+ */
+export function sortByCalendarPriority(events: CalendarEvent[], calendars: CalendarInfo[]): CalendarEvent[] {
+  const priority = (event: CalendarEvent) => calendars.find(info => info.id === event.calendarId)?.priority ?? 0;
+  return [...events].sort((a, b) => priority(b) - priority(a));
+}
+
+/**
+ * Whether an event falls on a day (a wall-clock date in the dashboard zone)
+ */
+export function isEventOnDay(event: CalendarEvent, day: Date, settings: DisplaySettings): boolean {
+  if (event.allDay) {
+    // For all-day events, compare date strings (YYYY-MM-DD format)
+    return event.start === format(day, 'yyyy-MM-dd');
+  }
+  // For timed events, use normal date comparison
+  return isSameDay(toDashboardTime(event.start, settings), day);
+}
+
+/**
+ * A day at a glance: every all-day event plus the longest timed event of each calendar,
+ * sorted by start time
+ */
+export function getDayHighlights(events: CalendarEvent[], day: Date, settings: DisplaySettings): CalendarEvent[] {
+  const highlights: CalendarEvent[] = [];
+  const calendarGroups: { [key: string]: CalendarEvent[] } = {};
+
+  events.filter(event => isEventOnDay(event, day, settings)).forEach(event => {
+    // Add all all-day events
+    if (event.allDay) {
+      highlights.push(event);
+    } else {
+      // Group timed events by calendar
+      if (!calendarGroups[event.calendarId]) {
+        calendarGroups[event.calendarId] = [];
+      }
+      calendarGroups[event.calendarId].push(event);
+    }
+  });
+
+  // Add longest event from each calendar
+  Object.values(calendarGroups).forEach(calEvents => {
+    const longest = calEvents.reduce((prev, current) => {
+      const prevDuration = differenceInMinutes(parseISO(prev.end), parseISO(prev.start));
+      const currentDuration = differenceInMinutes(parseISO(current.end), parseISO(current.start));
+      return currentDuration > prevDuration ? current : prev;
+    });
+    highlights.push(longest);
+  });
+
+  return highlights.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+}
@@ -0,0 +1,110 @@
+// Date/time helpers that honour the dashboard's configured time zone and locale
+// Shared by API routes and client components
+
+import { startOfWeek, endOfWeek } from 'date-fns';
+import { toZonedTime, fromZonedTime } from 'date-fns-tz';
+import type { DisplaySettings } from '@/types';
+
+type DateInput = Date | string | number;
+
+function toDate(value: DateInput): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+function formatParts(value: DateInput, settings: DisplaySettings, options: Intl.DateTimeFormatOptions) {
+  return new Intl.DateTimeFormat(settings.locale, {
+    timeZone: settings.timeZone,
+    hourCycle: settings.hour12 ? 'h12' : 'h23',
+    ...options,
+  }).formatToParts(toDate(value));
+}
+
+function format(value: DateInput, settings: DisplaySettings, options: Intl.DateTimeFormatOptions): string {
+  return formatParts(value, settings, options).map(part => part.value).join('');
+}
+
+/**
+ * Shift an instant so its local fields (getHours, getDate, ...) read as
+ * wall-clock time in the dashboard zone. Use for layout maths, not for display.
+ */
+export function toDashboardTime(value: DateInput, settings: DisplaySettings): Date {
+  return toZonedTime(toDate(value), settings.timeZone);
+}
+
+/**
+ * Large clock display, e.g. "9:05" (12h, no AM/PM) or "21:05" (24h)
+ */
+export function formatClock(value: DateInput, settings: DisplaySettings): string {
+  return formatParts(value, settings, { hour: 'numeric', minute: '2-digit' })
+    .filter(part => part.type !== 'dayPeriod')
+    .map(part => part.value)
+    .join('')
+    .trim();
+}
+
+/**
+ * Time of day, e.g. "9:05 AM" or "21:05"
+ */
+export function formatTime(value: DateInput, settings: DisplaySettings): string {
+  return format(value, settings, { hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * Hour only, e.g. "9 AM" or "21:00"
+ */
+export function formatHour(value: DateInput, settings: DisplaySettings): string {
+  return settings.hour12
+    ? format(value, settings, { hour: 'numeric' })
+    : format(value, settings, { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Label for an hour row of a day schedule (0-24), independent of the time zone
+ */
+export function formatHourLabel(hour: number, settings: DisplaySettings): string {
+  const date = new Date(Date.UTC(2000, 0, 1, hour % 24));
+  return formatHour(date, { ...settings, timeZone: 'UTC' });
+}
+
+/**
+ * Day of week, e.g. "Monday" (long) or "Mon" (short)
+ */
+export function formatWeekday(value: DateInput, settings: DisplaySettings, width: 'long' | 'short' = 'long'): string {
+  return format(value, settings, { weekday: width });
+}
+
+/**
+ * Day of month number, e.g. "7"
+ */
+export function formatDayOfMonth(value: DateInput, settings: DisplaySettings): string {
+  return format(value, settings, { day: 'numeric' });
+}
+
+/**
+ * Short month and day, e.g. "Oct 7"
+ */
+export function formatMonthDay(value: DateInput, settings: DisplaySettings): string {
+  return format(value, settings, { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Length of a day's daylight, e.g. "10h 52m"
+ */
+export function formatDayLength(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Current week boundaries in the dashboard zone, returned as UTC instants
+ */
+export function getWeekRange(settings: DisplaySettings, now: Date = new Date()): { start: Date; end: Date } {
+  const zonedNow = toZonedTime(now, settings.timeZone);
+  const zonedStart = startOfWeek(zonedNow, { weekStartsOn: settings.weekStartsOn });
+  const zonedEnd = endOfWeek(zonedNow, { weekStartsOn: settings.weekStartsOn });
+
+  return {
+    start: fromZonedTime(zonedStart, settings.timeZone),
+    end: fromZonedTime(zonedEnd, settings.timeZone),
+  };
+}
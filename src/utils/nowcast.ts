@@ -0,0 +1,40 @@
+// Wording of the precipitation nowcast, against the current minute so a cached
+// forecast still reads right
+
+import type { WeatherData } from '@/types';
+
+type Nowcast = NonNullable<WeatherData['nowcast']>;
+
+function minutesUntil(value: string, now: Date): number {
+  return Math.max(0, Math.round((new Date(value).getTime() - now.getTime()) / 60000));
+}
+
+// "in 12 min", "any minute now"
+function formatIn(value: string, now: Date): string {
+  const minutes = minutesUntil(value, now);
+  return minutes === 0 ? 'any minute now' : `in ${minutes} min`;
+}
+
+/**
+ * One line summary, e.g. "Light rain starting in 12 min", "Heavy snow stopping
+ * in 25 min" or "No rain for the next hour"; null once the nowcast has run out
+ */
+export function describeNowcast(nowcast: Nowcast, now: Date = new Date()): string | null {
+  const { type, intensity, changeAt, until } = nowcast;
+  const remaining = minutesUntil(until, now);
+  if (remaining === 0) {
+    return null;
+  }
+
+  const kind = `${intensity ? `${intensity.charAt(0).toUpperCase()}${intensity.slice(1)} ` : ''}${type}`;
+  const period = remaining >= 55 ? 'the next hour' : `the next ${remaining} min`;
+
+  // Past the predicted change the other state holds for the rest of the nowcast
+  const changed = changeAt !== null && new Date(changeAt) <= now;
+  const precipitating = changed ? !nowcast.precipitating : nowcast.precipitating;
+
+  if (changeAt && !changed) {
+    return `${kind} ${precipitating ? 'stopping' : 'starting'} ${formatIn(changeAt, now)}`;
+  }
+  return precipitating ? `${kind} for ${period}` : `No ${type} for ${period}`;
+}
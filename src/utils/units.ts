@@ -0,0 +1,65 @@
+// Weather quantities in the units the dashboard shows. Providers report °C, m/s
+// and mm; the weather payload is converted once on the server and cards label
+// values from the same table, so a number and its unit can't disagree.
+
+import type { UnitSettings, UnitSystem } from '@/types';
+
+export type Quantity = keyof UnitSettings;
+
+interface UnitDefinition {
+  label: string;
+  decimals: number; // Precision values are rounded to
+  fromBase: (value: number) => number;
+}
+
+const UNITS: { [Q in Quantity]: Record<UnitSettings[Q], UnitDefinition> } = {
+  temperature: {
+    celsius: { label: '°C', decimals: 0, fromBase: (value) => value },
+    fahrenheit: { label: '°F', decimals: 0, fromBase: (value) => (value * 9) / 5 + 32 },
+  },
+  speed: {
+    kmh: { label: 'km/h', decimals: 0, fromBase: (value) => value * 3.6 },
+    ms: { label: 'm/s', decimals: 1, fromBase: (value) => value },
+    mph: { label: 'mph', decimals: 0, fromBase: (value) => value * 2.236936 },
+  },
+  precipitation: {
+    mm: { label: 'mm', decimals: 1, fromBase: (value) => value },
+    cm: { label: 'cm', decimals: 1, fromBase: (value) => value / 10 },
+    in: { label: 'in', decimals: 2, fromBase: (value) => value / 25.4 },
+  },
+};
+
+export const UNIT_SYSTEMS: Record<UnitSystem, UnitSettings> = {
+  metric: { temperature: 'celsius', speed: 'kmh', precipitation: 'cm' },
+  imperial: { temperature: 'fahrenheit', speed: 'mph', precipitation: 'in' },
+  uk: { temperature: 'celsius', speed: 'mph', precipitation: 'mm' },
+};
+
+function getUnit(quantity: Quantity, units: UnitSettings): UnitDefinition {
+  return (UNITS[quantity] as Record<string, UnitDefinition>)[units[quantity]];
+}
+
+/**
+ * Convert a value from the provider's unit (°C, m/s, mm) to the configured
+ * one, rounded to that unit's precision
+ */
+export function convert(quantity: Quantity, value: number, units: UnitSettings): number {
+  const unit = getUnit(quantity, units);
+  const factor = 10 ** unit.decimals;
+  return Math.round(unit.fromBase(value) * factor) / factor;
+}
+
+/**
+ * Short label of the configured unit, e.g. "km/h"
+ */
+export function unitLabel(quantity: Quantity, units: UnitSettings): string {
+  return getUnit(quantity, units).label;
+}
+
+/**
+ * A converted value with its unit, e.g. "1.2 cm" or "14 mph"
+ */
+export function formatMeasurement(quantity: Quantity, value: number, units: UnitSettings): string {
+  const unit = getUnit(quantity, units);
+  return `${value.toFixed(unit.decimals)} ${unit.label}`;
+}
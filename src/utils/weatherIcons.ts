@@ -182,3 +182,63 @@ export function getWeatherIconPath(iconCode: string, weatherId?: number): string
   const iconName = getWeatherIconName(iconCode, weatherId);
   return `/weather-icons/wi-${iconName}.svg`;
 }
+
+// WMO weather interpretation codes (used by Open-Meteo) mapped to the closest
+// OpenWeatherMap condition, so every provider shares the icon mapping above
+// Based on https://open-meteo.com/en/docs (WMO code table 4677 subset)
+const wmoConditionMap: { [code: number]: { weatherId: number; icon: string; description: string } } = {
+  0: { weatherId: 800, icon: '01', description: 'Clear' },
+  1: { weatherId: 801, icon: '02', description: 'Clouds' },
+  2: { weatherId: 802, icon: '03', description: 'Clouds' },
+  3: { weatherId: 804, icon: '04', description: 'Clouds' },
+  45: { weatherId: 741, icon: '50', description: 'Fog' },
+  48: { weatherId: 741, icon: '50', description: 'Fog' },
+  51: { weatherId: 300, icon: '09', description: 'Drizzle' },
+  53: { weatherId: 301, icon: '09', description: 'Drizzle' },
+  55: { weatherId: 302, icon: '09', description: 'Drizzle' },
+  56: { weatherId: 511, icon: '13', description: 'Drizzle' },
+  57: { weatherId: 511, icon: '13', description: 'Drizzle' },
+  61: { weatherId: 500, icon: '10', description: 'Rain' },
+  63: { weatherId: 501, icon: '10', description: 'Rain' },
+  65: { weatherId: 502, icon: '10', description: 'Rain' },
+  66: { weatherId: 511, icon: '13', description: 'Rain' },
+  67: { weatherId: 511, icon: '13', description: 'Rain' },
+  71: { weatherId: 600, icon: '13', description: 'Snow' },
+  73: { weatherId: 601, icon: '13', description: 'Snow' },
+  75: { weatherId: 602, icon: '13', description: 'Snow' },
+  77: { weatherId: 600, icon: '13', description: 'Snow' },
+  80: { weatherId: 520, icon: '09', description: 'Rain' },
+  81: { weatherId: 521, icon: '09', description: 'Rain' },
+  82: { weatherId: 522, icon: '09', description: 'Rain' },
+  85: { weatherId: 620, icon: '13', description: 'Snow' },
+  86: { weatherId: 622, icon: '13', description: 'Snow' },
+  95: { weatherId: 211, icon: '11', description: 'Thunderstorm' },
+  96: { weatherId: 201, icon: '11', description: 'Thunderstorm' },
+  99: { weatherId: 202, icon: '11', description: 'Thunderstorm' },
+};
+
+/**
+ * Convert a WMO weather code to an OpenWeatherMap-style condition
+ * @param code - WMO weather interpretation code (0-99)
+ * @param isDay - Whether the sun is up, selects the 'd'/'n' icon variant
+ * @returns OWM condition ID, icon code and short description
+ */
+export function getWmoCondition(code: number, isDay: boolean): { weatherId: number; icon: string; description: string } {
+  const condition = wmoConditionMap[code] || wmoConditionMap[0];
+  return {
+    weatherId: condition.weatherId,
+    icon: `${condition.icon}${isDay ? 'd' : 'n'}`,
+    description: condition.description,
+  };
+}
+
+/**
+ * Get the weather icon filename for a WMO weather code
+ * @param code - WMO weather interpretation code (0-99)
+ * @param isDay - Whether the sun is up
+ * @returns SVG filename without extension
+ */
+export function getWmoIconName(code: number, isDay: boolean): string {
+  const { icon, weatherId } = getWmoCondition(code, isDay);
+  return getWeatherIconName(icon, weatherId);
+}